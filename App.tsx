@@ -4,9 +4,10 @@
 */
 
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import ReactCrop, { type Crop, type PixelCrop } from 'react-image-crop';
-import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateUncroppedImage } from './services/geminiService';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import ReactCrop, { type Crop, type PercentCrop } from 'react-image-crop';
+import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateUncroppedImage, generatePlacedProduct, generateVariants, detectObjects, suggestPrompts, enhancePrompt, estimateOperationCost, MAX_VARIANTS } from './services/geminiService';
+import { getUserMessage, isCancellation } from './services/errors';
 import Header from './components/Header';
 import Spinner from './components/Spinner';
 import FilterPanel from './components/FilterPanel';
@@ -16,13 +17,40 @@ import UncropPanel from './components/UncropPanel';
 import { UndoIcon, RedoIcon, EyeIcon, DownloadIcon } from './components/icons';
 import StartScreen from './components/StartScreen';
 import ShortcutsModal from './components/ShortcutsModal';
+import UsageModal from './components/UsageModal';
+import DebugModal from './components/DebugModal';
+import SettingsModal from './components/SettingsModal';
 import FaqPage from './components/FaqPage';
 import InspirationPage from './components/InspirationPage';
 import JSZip from 'jszip';
-import PromptSuggestions from './components/PromptSuggestions';
+import PromptSuggestions, { type SuggestionSource } from './components/PromptSuggestions';
 import PromptHistoryDropdown from './components/PromptHistoryDropdown';
-import { editSuggestions } from './data/suggestions';
 import ZoomControls from './components/ZoomControls';
+import VariantPicker from './components/VariantPicker';
+import ObjectCard from './components/ObjectCard';
+import ProductSelector from './components/ProductSelector';
+import AddProductModal from './components/AddProductModal';
+import HistoryPanel from './components/HistoryPanel';
+import BranchNavigator from './components/BranchNavigator';
+import BranchCompareModal from './components/BranchCompareModal';
+import RecipePanel, { type RecipeProgress } from './components/RecipePanel';
+import { drawObjectMask } from './services/objectDetection';
+import { paintStroke, paintShape, floodFillMask, invertMask, recolorMask, snapshotMask, restoreMask, renderMaskFile, getMaskOverlay, setMaskOverlay, MAX_MASK_UNDO, type MaskTool, type MaskOverlay, type Point } from './services/maskTools';
+import type { MaskToolbarProps } from './components/MaskToolbar';
+import { STATIC_SUGGESTIONS, type PromptSuggestionSet } from './services/promptSuggestions';
+import type { DetectedObject, Product, HistoryEntry } from './types';
+import { createRecipe, applyRecipeStep, describeRecipeStep, type EditRecipe } from './services/recipes';
+import { createSessionId, saveSession, loadSession, migrateLegacyAutosave, isEntrySaved, loadSavedImages, type SessionSnapshot } from './services/sessionStore';
+import { getHistoryMemoryLimits, subscribeToHistoryMemoryLimits, selectEntriesToSpill, recordDecodedSize } from './services/historyMemory';
+import { createProjectArchive, readProjectArchive, isProjectFile, InvalidProjectError, PROJECT_EXTENSION } from './services/projectFile';
+import { createHistoryEntry, createHistoryThumbnail, getHistoryPath, getLatestLeafId, type HistoryStep } from './services/history';
+import { DEFAULT_FEATHER_RADIUS, MAX_FEATHER_RADIUS } from './services/compositing';
+import { describeDrift, type DriftReport } from './services/resultValidation';
+import { checkBudget, subscribeToUsage } from './services/usageMeter';
+import { hasApiKey, subscribeToApiKey } from './services/apiKey';
+import { getImageEditProvider, type ImageOperation } from './services/imageProvider';
+import { getGenerationSettings, setGenerationSettings, type GenerationRecord } from './services/generationSettings';
+import { percentRectToNatural, naturalRectToPercent, getNaturalSize, getUncropSize, clientPointToTarget, screenToTargetScale } from './services/coordinates';
 
 // Helper to convert a data URL string to a File object
 const dataURLtoFile = (dataurl: string, filename: string): File => {
@@ -119,7 +147,7 @@ const usePromptHistory = (storageKey: string) => {
 };
 
 
-type Tab = 'edit' | 'adjust' | 'filters' | 'crop' | 'uncrop';
+type Tab = 'edit' | 'adjust' | 'filters' | 'crop' | 'uncrop' | 'products';
 type Page = 'editor' | 'faq' | 'inspiration';
 
 type BatchImageStatus = 'pending' | 'processing' | 'done' | 'error';
@@ -129,6 +157,10 @@ interface BatchImage {
   editedUrl?: string;
   status: BatchImageStatus;
   error?: string;
+  /** What is happening while a recipe runs, e.g. "Step 2 of 4". */
+  progress?: string;
+  /** Why the result drifted from the original, if it still did after any retries. */
+  driftWarning?: string;
 }
 
 const loadingMessages = [
@@ -140,17 +172,40 @@ const loadingMessages = [
     "Generating your masterpiece..."
 ];
 
-const AUTOSAVE_KEY = 'pixelshop_autosave';
+// How long an image has to stay current before suggestions are requested for it
+const SUGGESTION_DELAY_MS = 800;
+
+// Settings are read once per run so every variant, and the history step, use the same ones
+const snapshotGeneration = (operation: ImageOperation): GenerationRecord => ({ operation, settings: getGenerationSettings(operation) });
 
 const App: React.FC = () => {
   // Single image editor state
-  const [history, setHistory] = useState<File[]>([]);
-  const [historyIndex, setHistoryIndex] = useState<number>(-1);
+  // Every step ever made, as a tree through each entry's parentId. Undo and redo
+  // move along the branch that ends at tipId.
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [tipId, setTipId] = useState<string | null>(null);
+  const [comparedBranches, setComparedBranches] = useState<[string, string] | null>(null);
+  // The saved session the history is autosaved to, or null when nothing is being edited
+  const [session, setSession] = useState<{ id: string; name: string; createdAt: number } | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  // Steps whose images have been swapped for the copies saved in IndexedDB, so no longer held in memory
+  const spilledIdsRef = useRef(new Set<string>());
+  const [memoryLimits, setMemoryLimits] = useState(getHistoryMemoryLimits);
+
+  // Edit recipes: a loaded recipe, and how far its run on the single image got
+  const [recipe, setRecipe] = useState<EditRecipe | null>(null);
+  const [recipeProgress, setRecipeProgress] = useState<RecipeProgress | null>(null);
+  const [isRecipeRunning, setIsRecipeRunning] = useState(false);
   const [editPrompt, setEditPrompt] = useState<string>('');
   
   // Batch editor state
   const [batchImages, setBatchImages] = useState<BatchImage[]>([]);
-  const isCancellingRef = useRef<boolean>(false);
+
+  // Aborts whichever AI operation (single or batch) is currently running
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Drift reports of the variant run in progress, by variant index; null outside variant runs
+  const variantDriftRef = useRef<Map<number, DriftReport> | null>(null);
 
   // Common state
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -158,15 +213,47 @@ const App: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('edit');
   
-  // Edit-specific state
+  // Edit-specific state. Completed selections are kept as percentages so they
+  // stay valid under any zoom level and convert exactly to natural pixels.
   const [editCrop, setEditCrop] = useState<Crop>();
-  const [completedEditCrop, setCompletedEditCrop] = useState<PixelCrop>();
+  const [completedEditCrop, setCompletedEditCrop] = useState<PercentCrop>();
   
   // Crop-specific state
   const [crop, setCrop] = useState<Crop>();
-  const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
+  const [completedCrop, setCompletedCrop] = useState<PercentCrop>();
   const [aspect, setAspect] = useState<number | undefined>();
   
+  // Variant state: alternatives waiting to be picked before anything enters history
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [pendingVariants, setPendingVariants] = useState<{ urls: string[]; driftWarnings: (string | null)[]; filePrefix: string; step: HistoryStep } | null>(null);
+  const [selectedVariantIndex, setSelectedVariantIndex] = useState<number | null>(null);
+
+  // Soft edge used when compositing localized results back onto the image
+  const [featherRadius, setFeatherRadius] = useState<number>(DEFAULT_FEATHER_RADIUS);
+
+  // Result validation: drifted results can be regenerated automatically, otherwise they are flagged
+  const [retryOnDrift, setRetryOnDrift] = useState<boolean>(false);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  // Identical requests are answered from the result cache unless this is set
+  const [forceRegenerate, setForceRegenerate] = useState<boolean>(false);
+
+  // Object detection: objects found in the current image, usable as the edit selection or mask
+  const [detectedObjects, setDetectedObjects] = useState<DetectedObject[] | null>(null);
+  const [activeObjectIds, setActiveObjectIds] = useState<string[]>([]);
+  const [hoveredObject, setHoveredObject] = useState<DetectedObject | null>(null);
+  // Objects waiting for the mask canvas to mount before they can be drawn onto it
+  const [pendingMaskObjects, setPendingMaskObjects] = useState<DetectedObject[]>([]);
+
+  // Product placement: the product to insert, placed in the same selection Magic Edit uses
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [placementNotes, setPlacementNotes] = useState<string>('');
+  const [isAddProductModalOpen, setIsAddProductModalOpen] = useState(false);
+
+  // Prompt suggestions tailored to the current image; the static lists are shown until they arrive
+  const [imageSuggestions, setImageSuggestions] = useState<PromptSuggestionSet | null>(null);
+  const [isFetchingSuggestions, setIsFetchingSuggestions] = useState(false);
+  
   // Comparison state
   const [isComparing, setIsComparing] = useState<boolean>(false);
   const imgRef = useRef<HTMLImageElement>(null);
@@ -174,7 +261,17 @@ const App: React.FC = () => {
   // Masking state for Adjust/Filters
   const [isMasking, setIsMasking] = useState<boolean>(false);
   const [brushSize, setBrushSize] = useState<number>(40);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [maskFeather, setMaskFeather] = useState<number>(0);
+  const [maskOverlay, setMaskOverlayState] = useState<MaskOverlay>(getMaskOverlay);
+  // A rectangle, ellipse or lasso being drawn, in mask canvas pixels
+  const [shapeDraft, setShapeDraft] = useState<{ tool: 'rectangle' | 'ellipse' | 'lasso'; points: Point[]; cursor: Point | null; erase: boolean } | null>(null);
+  // Mask changes have their own undo stack, separate from the image history
+  const maskUndoRef = useRef<Promise<Blob | null>[]>([]);
+  const [maskUndoCount, setMaskUndoCount] = useState(0);
   const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Where the displayed image sits, in layout pixels, so the mask can be laid over it exactly
+  const [maskBox, setMaskBox] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
   const isDrawingRef = useRef<boolean>(false);
   const lastPositionRef = useRef<{ x: number, y: number } | null>(null);
 
@@ -192,6 +289,12 @@ const App: React.FC = () => {
   
   // UI state
   const [isShortcutsModalOpen, setIsShortcutsModalOpen] = useState(false);
+  const [isUsageModalOpen, setIsUsageModalOpen] = useState(false);
+  const [isDebugModalOpen, setIsDebugModalOpen] = useState(false);
+  const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
+  const [isApiKeyConfigured, setIsApiKeyConfigured] = useState<boolean>(hasApiKey);
+
+  useEffect(() => subscribeToApiKey(() => setIsApiKeyConfigured(hasApiKey())), []);
   const [currentPage, setCurrentPage] = useState<Page>('editor');
   const [promptToTry, setPromptToTry] = useState<{ prompt: string; type: Tab } | null>(null);
   const [isEditHistoryVisible, setIsEditHistoryVisible] = useState(false);
@@ -201,72 +304,75 @@ const App: React.FC = () => {
   const { history: adjustHistory, addPrompt: addAdjustPrompt, clearHistory: clearAdjustHistory } = usePromptHistory('pixelshop_adjust_history');
   const { history: filterHistory, addPrompt: addFilterPrompt, clearHistory: clearFilterHistory } = usePromptHistory('pixelshop_filter_history');
 
-  const currentImage = history[historyIndex] ?? null;
-  const originalImage = history[0] ?? null;
+  const activePath = useMemo(() => getHistoryPath(history, tipId), [history, tipId]);
+  const historyIndex = activePath.findIndex(entry => entry.id === currentId);
+  const currentEntry = activePath[historyIndex] ?? null;
+  const currentImage = currentEntry?.file ?? null;
+  const originalImage = history[0]?.file ?? null;
 
   const [currentImageUrl, setCurrentImageUrl] = useState<string | null>(null);
   const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
   
-  // --- Auto-save and Restore Effects ---
-  // Effect for restoring session on load
+  // --- Auto-save Effects ---
+  // Sessions autosaved to localStorage by earlier versions are moved into the session store
   useEffect(() => {
-      const restoreSession = () => {
-          try {
-              const savedStateJSON = localStorage.getItem(AUTOSAVE_KEY);
-              if (!savedStateJSON) return;
-
-              const savedState = JSON.parse(savedStateJSON);
-              const lastSaved = new Date(savedState.timestamp);
-              
-              if (window.confirm(`You have an unsaved session from ${lastSaved.toLocaleString()}. Would you like to restore it?`)) {
-                  const restoredHistory = savedState.history.map((item: { dataUrl: string, name: string }) => 
-                      dataURLtoFile(item.dataUrl, item.name)
-                  );
-                  setHistory(restoredHistory);
-                  setHistoryIndex(savedState.historyIndex);
-              } else {
-                  localStorage.removeItem(AUTOSAVE_KEY);
-              }
-          } catch (err) {
-              console.error("Failed to restore session:", err);
-              localStorage.removeItem(AUTOSAVE_KEY);
-          }
-      };
-
-      restoreSession();
-      // This effect should only run once on initial mount.
-      // eslint-disable-next-line react-hooks/exhaustive-deps
+    migrateLegacyAutosave();
   }, []);
 
-  // Effect for auto-saving session on change
+  // Effect for auto-saving the session on change
   useEffect(() => {
+    if (!session || history.length === 0 || !currentId || !tipId) return;
     // Debounce saving to avoid excessive writes for rapid changes (like undo/redo spam)
     const timeoutId = setTimeout(async () => {
-        if (history.length === 0 || historyIndex < 0) {
-            localStorage.removeItem(AUTOSAVE_KEY);
-            return;
-        }
-
         try {
-            const serializableHistory = await Promise.all(history.map(async (file) => ({
-                name: file.name,
-                dataUrl: await fileToDataURL(file),
-            })));
-
-            const stateToSave = {
-                history: serializableHistory,
-                historyIndex,
-                timestamp: new Date().toISOString(),
-            };
-
-            localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(stateToSave));
+            await saveSession(session, { history, currentId, tipId });
+            setLastSavedAt(Date.now());
         } catch (err) {
             console.error("Failed to auto-save session:", err);
+            setWarning('This session could not be saved in the browser, so it will not be available after the page is closed.');
         }
     }, 500); // 500ms debounce
 
     return () => clearTimeout(timeoutId);
-  }, [history, historyIndex]);
+  }, [history, currentId, tipId, session]);
+
+  useEffect(() => subscribeToHistoryMemoryLimits(() => setMemoryLimits(getHistoryMemoryLimits())), []);
+
+  // Move the images of saved steps away from the current one out of memory
+  useEffect(() => {
+    if (!session) return;
+    const spilled = spilledIdsRef.current;
+    const ids = selectEntriesToSpill(history, activePath, currentId, entry => !spilled.has(entry.id), memoryLimits)
+        // The original stays in memory because it is always displayed underneath for comparison
+        .filter(id => id !== history[0]?.id && isEntrySaved(session.id, id));
+    if (ids.length === 0) return;
+
+    ids.forEach(id => spilled.add(id));
+    loadSavedImages(session.id, ids)
+        .then(images => {
+            console.log(`Moved ${images.size} history image(s) out of memory.`);
+            setHistory(current => current.map(entry => images.has(entry.id) ? { ...entry, ...images.get(entry.id) } : entry));
+        })
+        .catch(err => {
+            console.warn('Could not move history images out of memory.', err);
+            ids.forEach(id => spilled.delete(id));
+        });
+  }, [history, activePath, currentId, session, lastSavedAt, memoryLimits]);
+
+  // Fill in thumbnails for new and restored history steps
+  const thumbnailsInProgressRef = useRef(new Set<string>());
+  useEffect(() => {
+    history.filter(entry => !entry.thumbnailUrl && !thumbnailsInProgressRef.current.has(entry.id)).forEach(entry => {
+        thumbnailsInProgressRef.current.add(entry.id);
+        createHistoryThumbnail(entry.file)
+            .then(({ thumbnailUrl, size }) => {
+                recordDecodedSize(entry.id, size);
+                setHistory(current => current.map(item => item.id === entry.id ? { ...item, thumbnailUrl } : item));
+            })
+            .catch(err => console.warn('Could not create a history thumbnail.', err))
+            .finally(() => thumbnailsInProgressRef.current.delete(entry.id));
+    });
+  }, [history]);
 
   // Effect for rotating loading messages
   useEffect(() => {
@@ -333,30 +439,134 @@ const App: React.FC = () => {
 
 
   const canUndo = historyIndex > 0;
-  const canRedo = historyIndex < history.length - 1;
+  // While picking a variant, "before" is the current image rather than the original
+  const canCompare = canUndo || !!pendingVariants;
+  const displayedImageUrl = pendingVariants && selectedVariantIndex !== null
+    ? pendingVariants.urls[selectedVariantIndex]
+    : currentImageUrl;
+  const comparisonImageUrl = pendingVariants ? currentImageUrl : originalImageUrl;
+  const canRedo = historyIndex >= 0 && historyIndex < activePath.length - 1;
+  // The mask is kept while on other tabs, but only shown and drawn on where it applies
+  const isMaskActive = isMasking && (activeTab === 'adjust' || activeTab === 'filters');
   
   const resetView = useCallback(() => {
     setZoom(1);
     setPan({ x: 0, y: 0 });
   }, []);
 
-  const addImageToHistory = useCallback((newImageFile: File) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newImageFile);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+  // Starts a new cancellable operation and returns its signal.
+  const startOperation = useCallback((): AbortSignal => {
+    abortControllerRef.current?.abort();
+    setWarning(null);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  const handleCancelOperation = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Each variant's drift is shown on its own thumbnail rather than in the shared warning
+  const handleDrift = useCallback((report: DriftReport, variant: number) => {
+    if (variantDriftRef.current) {
+      variantDriftRef.current.set(variant, report);
+    } else {
+      setWarning(describeDrift(report));
+    }
+  }, []);
+
+  // Surface the budget's limits as soon as a request pushes spend past them
+  useEffect(() => subscribeToUsage(() => {
+    const budget = checkBudget();
+    if (budget.level === 'block') {
+      setError(budget.message);
+    } else if (budget.level === 'warn') {
+      setWarning(budget.message);
+    }
+  }), []);
+
+  // Options shared by every single-image AI operation
+  const resultOptions = useMemo(() => ({
+    featherRadius,
+    retryOnDrift,
+    forceRegenerate,
+    onDrift: handleDrift,
+  }), [featherRadius, retryOnDrift, forceRegenerate, handleDrift]);
+
+  const handleReuseGeneration = useCallback(() => {
+    const generation = currentEntry?.generation;
+    if (!generation) return;
+    setGenerationSettings(generation.operation, generation.settings);
+  }, [currentEntry]);
+
+  // A step made after an undo starts a new branch; the redo steps stay in the tree.
+  const addImageToHistory = useCallback((newImageFile: File, step: HistoryStep) => {
+    const entry = createHistoryEntry(newImageFile, currentEntry?.id ?? null, step);
+    setHistory(current => [...current, entry]);
+    setCurrentId(entry.id);
+    setTipId(entry.id);
     // Reset transient states after an action
+    setPendingVariants(null);
+    setSelectedVariantIndex(null);
     setCrop(undefined);
     setCompletedCrop(undefined);
     setEditCrop(undefined);
     setCompletedEditCrop(undefined);
     resetView();
-  }, [history, historyIndex, resetView]);
+  }, [currentEntry, resetView]);
+
+  // Commits a single result straight to history, or collects several variants for the picker.
+  // The step's duration covers every variant, up to the point they can be picked.
+  const produceResult = useCallback(async (filePrefix: string, step: HistoryStep & { generation: GenerationRecord }, generate: (variant: number) => Promise<string>) => {
+    setPendingVariants(null);
+    setSelectedVariantIndex(null);
+    const startedAt = Date.now();
+
+    if (variantCount <= 1) {
+        const imageUrl = await generate(0);
+        addImageToHistory(dataURLtoFile(imageUrl, `${filePrefix}-${Date.now()}.png`), { ...step, durationMs: Date.now() - startedAt });
+        return;
+    }
+
+    const drift = new Map<number, DriftReport>();
+    variantDriftRef.current = drift;
+    try {
+      const variants = await generateVariants(step.generation.operation, variantCount, generate);
+      setPendingVariants({
+        urls: variants.map(({ imageUrl }) => imageUrl),
+        driftWarnings: variants.map(({ variant }) => drift.has(variant) ? describeDrift(drift.get(variant)!) : null),
+        filePrefix,
+        step: { ...step, durationMs: Date.now() - startedAt },
+      });
+      setSelectedVariantIndex(0);
+    } finally {
+      if (variantDriftRef.current === drift) variantDriftRef.current = null;
+    }
+  }, [variantCount, addImageToHistory]);
+
+  const handleKeepVariant = useCallback(() => {
+    if (!pendingVariants || selectedVariantIndex === null) return;
+    const imageUrl = pendingVariants.urls[selectedVariantIndex];
+    addImageToHistory(dataURLtoFile(imageUrl, `${pendingVariants.filePrefix}-${Date.now()}.png`), pendingVariants.step);
+  }, [pendingVariants, selectedVariantIndex, addImageToHistory]);
+
+  const handleDiscardVariants = useCallback(() => {
+    setPendingVariants(null);
+    setSelectedVariantIndex(null);
+  }, []);
 
   const handleImageUpload = useCallback((file: File) => {
     setError(null);
-    setHistory([file]);
-    setHistoryIndex(0);
+    setWarning(null);
+    handleDiscardVariants();
+    const upload = createHistoryEntry(file, null, { operation: 'upload' });
+    setHistory([upload]);
+    setCurrentId(upload.id);
+    setTipId(upload.id);
+    setSession({ id: createSessionId(), name: file.name.replace(/\.[^.]+$/, '') || 'Untitled', createdAt: Date.now() });
+    setRecipeProgress(null);
+    setComparedBranches(null);
     setBatchImages([]); // Ensure batch mode is cleared
     setActiveTab('edit');
     setCrop(undefined);
@@ -364,7 +574,52 @@ const App: React.FC = () => {
     setEditCrop(undefined);
     setCompletedEditCrop(undefined);
     resetView();
-  }, [resetView]);
+  }, [resetView, handleDiscardVariants]);
+
+  // Shows a saved or opened session in the editor, with its undo/redo state
+  const showSession = useCallback((snapshot: SessionSnapshot, sessionInfo: { id: string; name: string; createdAt: number }) => {
+    handleDiscardVariants();
+    setHistory(snapshot.history);
+    setCurrentId(snapshot.currentId);
+    setTipId(snapshot.tipId);
+    setSession(sessionInfo);
+    setRecipeProgress(null);
+    setComparedBranches(null);
+    setBatchImages([]);
+    setActiveTab('edit');
+    setCrop(undefined);
+    setCompletedCrop(undefined);
+    setEditCrop(undefined);
+    setCompletedEditCrop(undefined);
+    resetView();
+  }, [resetView, handleDiscardVariants]);
+
+  const handleResumeSession = useCallback(async (sessionId: string) => {
+    setError(null);
+    setWarning(null);
+    try {
+      const saved = await loadSession(sessionId);
+      // Images read from IndexedDB are already out of memory
+      saved.history.forEach(entry => spilledIdsRef.current.add(entry.id));
+      showSession(saved, { id: saved.id, name: saved.name, createdAt: saved.createdAt });
+    } catch (err) {
+      console.error('Failed to resume the session:', err);
+      setError(err instanceof Error ? err.message : 'The saved session could not be opened.');
+    }
+  }, [showSession]);
+
+  const handleOpenProject = useCallback(async (file: File) => {
+    setError(null);
+    setWarning(null);
+    try {
+      const project = await readProjectArchive(file);
+      // An opened project becomes a new session, so the recipient's edits are autosaved too
+      showSession(project, { id: createSessionId(), name: project.name, createdAt: Date.now() });
+    } catch (err) {
+      console.error('Failed to open the project:', err);
+      setError(err instanceof InvalidProjectError ? err.message : 'The project file could not be opened.');
+    }
+  }, [showSession]);
 
   const handleGenerate = useCallback(async () => {
     if (!currentImage) {
@@ -382,22 +637,76 @@ const App: React.FC = () => {
         return;
     }
 
+    if (!imgRef.current) {
+        setError('The image is still loading. Please try again in a moment.');
+        return;
+    }
+    const selection = percentRectToNatural(completedEditCrop, getNaturalSize(imgRef.current));
+
     setIsLoading(true);
     setError(null);
+    const signal = startOperation();
     
     try {
-        const editedImageUrl = await generateEditedImage(currentImage, editPrompt, completedEditCrop);
-        const newImageFile = dataURLtoFile(editedImageUrl, `edited-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const generation = snapshotGeneration('edit');
+        await produceResult('edited', { operation: 'edit', prompt: editPrompt, selection, generation }, variant => generateEditedImage(currentImage, editPrompt, selection, { ...resultOptions, settings: generation.settings, signal, variant }));
         addEditPrompt(editPrompt);
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        if (isCancellation(err)) {
+            console.log('Edit cancelled by user.');
+            return;
+        }
+        const errorMessage = getUserMessage(err);
         setError(`Failed to generate the image. ${errorMessage}`);
         console.error(err);
     } finally {
         setIsLoading(false);
     }
-  }, [currentImage, editPrompt, completedEditCrop, addImageToHistory, addEditPrompt]);
+  }, [currentImage, editPrompt, completedEditCrop, produceResult, addEditPrompt, startOperation, resultOptions]);
+
+  const handlePlaceProduct = useCallback(async () => {
+    if (!currentImage) {
+      setError('No image loaded to place a product in.');
+      return;
+    }
+    if (!selectedProduct) {
+        setError('Please choose a product to place.');
+        return;
+    }
+    if (!completedEditCrop || completedEditCrop.width === 0) {
+        setError('Please select the area where the product should go.');
+        return;
+    }
+    if (!imgRef.current) {
+        setError('The image is still loading. Please try again in a moment.');
+        return;
+    }
+    const region = percentRectToNatural(completedEditCrop, getNaturalSize(imgRef.current));
+
+    setIsLoading(true);
+    setError(null);
+    const signal = startOperation();
+
+    try {
+        const generation = snapshotGeneration('place');
+        const instructions = placementNotes.trim();
+        const step = { operation: 'place' as const, prompt: instructions ? `${selectedProduct.name}: ${instructions}` : selectedProduct.name, selection: region, generation };
+        await produceResult('placed', step, variant => generatePlacedProduct(
+            currentImage, selectedProduct.file, selectedProduct.name, region, placementNotes,
+            { ...resultOptions, settings: generation.settings, signal, variant },
+        ));
+    } catch (err) {
+        if (isCancellation(err)) {
+            console.log('Product placement cancelled by user.');
+            return;
+        }
+        const errorMessage = getUserMessage(err);
+        setError(`Failed to place the product. ${errorMessage}`);
+        console.error(err);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [currentImage, selectedProduct, placementNotes, completedEditCrop, produceResult, startOperation, resultOptions]);
   
   const handleBatchApply = useCallback(async (prompt: string, type: 'filter' | 'adjust') => {
     if (!prompt.trim()) {
@@ -409,10 +718,20 @@ const App: React.FC = () => {
     if (imagesToProcess.length === 0) {
         return;
     }
+
+    // Check the whole batch against the budget up front rather than failing part-way through
+    const budget = checkBudget(estimateOperationCost(type, imagesToProcess.length));
+    if (budget.level === 'block') {
+        setError(`Batch not started. ${budget.message}`);
+        return;
+    }
+    if (budget.level === 'warn' && !window.confirm(`${budget.message} Start the batch of ${imagesToProcess.length} image(s) anyway?`)) {
+        return;
+    }
     
     setIsLoading(true);
     setError(null);
-    isCancellingRef.current = false; // Reset on new run
+    const signal = startOperation();
 
     // Add to history at the start of a successful batch
     if (type === 'filter') {
@@ -424,24 +743,34 @@ const App: React.FC = () => {
     const editFunction = type === 'filter' ? generateFilteredImage : generateAdjustedImage;
 
     for (const imageToProcess of imagesToProcess) {
-        if (isCancellingRef.current) {
+        if (signal.aborted) {
             console.log('Batch operation cancelled by user.');
             break;
         }
 
         setBatchImages(prev => prev.map(img => 
-            img.id === imageToProcess.id ? { ...img, status: 'processing' } : img
+            img.id === imageToProcess.id ? { ...img, status: 'processing', driftWarning: undefined } : img
         ));
 
         try {
-            const editedUrl = await editFunction(imageToProcess.original, prompt, null); // Masking not supported in batch
+            let driftWarning: string | undefined;
+            const onDrift = (report: DriftReport) => { driftWarning = describeDrift(report); };
+            const editedUrl = await editFunction(imageToProcess.original, prompt, null, { signal, retryOnDrift, forceRegenerate, onDrift }); // Masking not supported in batch
             setBatchImages(prev => prev.map(img =>
                 img.id === imageToProcess.id
-                    ? { ...img, editedUrl, status: 'done', error: undefined }
+                    ? { ...img, editedUrl, status: 'done', error: undefined, driftWarning }
                     : img
             ));
         } catch (err) {
-            const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+            if (isCancellation(err)) {
+                // Drop the interrupted image back to pending so it can be run again
+                setBatchImages(prev => prev.map(img =>
+                    img.id === imageToProcess.id ? { ...img, status: 'pending' } : img
+                ));
+                console.log('Batch operation cancelled by user.');
+                break;
+            }
+            const message = getUserMessage(err);
             console.error(`Batch processing failed for ${imageToProcess.original.name}:`, err);
             setBatchImages(prev => prev.map(img =>
                 img.id === imageToProcess.id
@@ -452,9 +781,150 @@ const App: React.FC = () => {
     }
 
     setIsLoading(false);
-    isCancellingRef.current = false;
-  }, [batchImages, addFilterPrompt, addAdjustPrompt]);
+  }, [batchImages, addFilterPrompt, addAdjustPrompt, startOperation, retryOnDrift, forceRegenerate]);
   
+  const handleExportRecipe = useCallback(async () => {
+    const path = activePath.slice(0, historyIndex + 1);
+    if (path.length < 2) {
+        setError('Make at least one edit before exporting a recipe.');
+        return;
+    }
+    try {
+        const baseName = path[0].file.name.replace(/\.[^.]+$/, '');
+        const { recipe: exported, skipped } = await createRecipe(path, `Recipe from ${baseName}`);
+        if (exported.steps.length === 0) {
+            setError('None of the steps that led to this image can be saved in a recipe.');
+            return;
+        }
+        if (skipped > 0) {
+            setWarning(`${skipped} step(s) were left out of the recipe because they cannot be replayed, such as product placements.`);
+        }
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' }));
+        link.download = `${baseName}-recipe.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+    } catch (err) {
+        console.error('Failed to export the recipe:', err);
+        setError('The recipe could not be created.');
+    }
+  }, [activePath, historyIndex]);
+
+  const handleRecipeChange = useCallback((next: EditRecipe | null) => {
+    setRecipe(next);
+    setRecipeProgress(null);
+  }, []);
+
+  // Each completed step becomes a history step, so a failed run keeps its progress
+  // and can continue from the failed step.
+  const handleApplyRecipe = useCallback(async (fromStep: number = 0) => {
+    if (!recipe || !currentImage) return;
+    setIsLoading(true);
+    setIsRecipeRunning(true);
+    setError(null);
+    const signal = startOperation();
+
+    let image = currentImage;
+    let parentId = currentEntry?.id ?? null;
+    for (let index = fromStep; index < recipe.steps.length; index++) {
+        setRecipeProgress({ stepIndex: index, error: null });
+        try {
+            const { file, historyStep } = await applyRecipeStep(image, recipe.steps[index], { ...resultOptions, signal });
+            const entry = createHistoryEntry(file, parentId, historyStep);
+            setHistory(current => [...current, entry]);
+            setCurrentId(entry.id);
+            setTipId(entry.id);
+            image = file;
+            parentId = entry.id;
+        } catch (err) {
+            if (isCancellation(err)) {
+                console.log('Recipe cancelled by user.');
+            } else {
+                console.error(`Recipe step ${index + 1} failed:`, err);
+            }
+            setRecipeProgress({ stepIndex: index, error: getUserMessage(err) });
+            setIsRecipeRunning(false);
+            setIsLoading(false);
+            return;
+        }
+    }
+    setRecipeProgress({ stepIndex: recipe.steps.length, error: null });
+    setIsRecipeRunning(false);
+    setIsLoading(false);
+    resetView();
+  }, [recipe, currentImage, currentEntry, startOperation, resultOptions, resetView]);
+
+  const handleBatchRecipe = useCallback(async () => {
+    if (!recipe) return;
+    const imagesToProcess = batchImages.filter(img => img.status === 'pending' || img.status === 'error');
+    if (imagesToProcess.length === 0) {
+        return;
+    }
+
+    const aiOperations = recipe.steps.flatMap(step => step.operation === 'crop' ? [] : [step.operation]);
+    const estimate = aiOperations.reduce((sum, operation) => sum + estimateOperationCost(operation, imagesToProcess.length), 0);
+    const budget = checkBudget(estimate);
+    if (budget.level === 'block') {
+        setError(`Batch not started. ${budget.message}`);
+        return;
+    }
+    if (budget.level === 'warn' && !window.confirm(`${budget.message} Apply the recipe to ${imagesToProcess.length} image(s) anyway?`)) {
+        return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    const signal = startOperation();
+    const updateImage = (id: string, changes: Partial<BatchImage>) =>
+        setBatchImages(prev => prev.map(img => img.id === id ? { ...img, ...changes } : img));
+
+    for (const imageToProcess of imagesToProcess) {
+        if (signal.aborted) {
+            console.log('Batch recipe cancelled by user.');
+            break;
+        }
+        let image = imageToProcess.original;
+        let failure: { index: number; err: unknown } | null = null;
+        const driftWarnings: string[] = [];
+        for (let index = 0; index < recipe.steps.length; index++) {
+            updateImage(imageToProcess.id, { status: 'processing', error: undefined, driftWarning: undefined, progress: `Step ${index + 1} of ${recipe.steps.length}` });
+            const onDrift = (report: DriftReport) => { driftWarnings.push(`Step ${index + 1}: ${describeDrift(report)}`); };
+            try {
+                image = (await applyRecipeStep(image, recipe.steps[index], { signal, retryOnDrift, forceRegenerate, onDrift })).file;
+            } catch (err) {
+                failure = { index, err };
+                break;
+            }
+        }
+
+        if (!failure) {
+            updateImage(imageToProcess.id, {
+                status: 'done',
+                editedUrl: await fileToDataURL(image),
+                error: undefined,
+                progress: undefined,
+                driftWarning: driftWarnings.length > 0 ? driftWarnings.join(' ') : undefined,
+            });
+        } else if (isCancellation(failure.err)) {
+            // Drop the interrupted image back to pending so it can be run again
+            updateImage(imageToProcess.id, { status: 'pending', progress: undefined });
+            console.log('Batch recipe cancelled by user.');
+            break;
+        } else {
+            console.error(`Recipe failed for ${imageToProcess.original.name} at step ${failure.index + 1}:`, failure.err);
+            updateImage(imageToProcess.id, {
+                status: 'error',
+                error: `Step ${failure.index + 1} (${describeRecipeStep(recipe.steps[failure.index])}): ${getUserMessage(failure.err)}`,
+                progress: undefined,
+            });
+        }
+    }
+
+    setIsLoading(false);
+  }, [recipe, batchImages, startOperation, retryOnDrift, forceRegenerate]);
+
   const handleRetryImage = useCallback(async (imageToRetry: BatchImage) => {
     const type = activeTab === 'filters' ? 'filter' : 'adjust';
     if (activeTab !== 'adjust' && activeTab !== 'filters') {
@@ -468,72 +938,230 @@ const App: React.FC = () => {
         return;
     }
     
+    setIsLoading(true);
     setError(null);
+    const signal = startOperation();
 
     const editFunction = type === 'filter' ? generateFilteredImage : generateAdjustedImage;
 
     setBatchImages(prev => prev.map(img => 
-        img.id === imageToRetry.id ? { ...img, status: 'processing', error: undefined } : img
+        img.id === imageToRetry.id ? { ...img, status: 'processing', error: undefined, driftWarning: undefined } : img
     ));
 
     try {
-        const editedUrl = await editFunction(imageToRetry.original, prompt, null);
+        let driftWarning: string | undefined;
+        const onDrift = (report: DriftReport) => { driftWarning = describeDrift(report); };
+        const editedUrl = await editFunction(imageToRetry.original, prompt, null, { signal, retryOnDrift, forceRegenerate, onDrift });
         setBatchImages(prev => prev.map(img =>
             img.id === imageToRetry.id
-                ? { ...img, editedUrl, status: 'done', error: undefined }
+                ? { ...img, editedUrl, status: 'done', error: undefined, driftWarning }
                 : img
         ));
     } catch (err) {
-        const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+        if (isCancellation(err)) {
+            // Drop the image back to pending so it can be run again
+            setBatchImages(prev => prev.map(img =>
+                img.id === imageToRetry.id ? { ...img, status: 'pending' } : img
+            ));
+            console.log('Retry cancelled by user.');
+            return;
+        }
+        const message = getUserMessage(err);
         console.error(`Retry failed for ${imageToRetry.original.name}:`, err);
         setBatchImages(prev => prev.map(img =>
             img.id === imageToRetry.id
                 ? { ...img, status: 'error', error: message }
                 : img
         ));
+    } finally {
+        setIsLoading(false);
     }
-  }, [activeTab, filterPrompt, adjustmentPrompt]);
+  }, [activeTab, filterPrompt, adjustmentPrompt, startOperation, retryOnDrift, forceRegenerate]);
 
     const getMaskAsFile = useCallback(async (): Promise<File | null> => {
         const canvas = maskCanvasRef.current;
         if (!canvas || isCanvasBlank(canvas)) {
             return null;
         }
+        // Feather is set in display pixels, like the preview
+        const displayScale = canvas.offsetWidth > 0 ? canvas.width / canvas.offsetWidth : 1;
+        return renderMaskFile(canvas, maskFeather * displayScale);
+    }, [maskFeather]);
+
+    // The mask is stored at the image's natural resolution, whatever its display
+    // size or zoom; the canvas element is only stretched over the displayed image.
+    const syncMaskCanvasSize = useCallback(() => {
+        const canvas = maskCanvasRef.current;
+        const image = imgRef.current;
+        if (!canvas || !image || !image.naturalWidth) return;
+        if (canvas.width === image.naturalWidth && canvas.height === image.naturalHeight) return;
+        // Resizing empties the canvas; a mask drawn for an image of another size would not line up with it anyway
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+        maskUndoRef.current = [];
+        setMaskUndoCount(0);
+    }, []);
 
-        // Create a new canvas to produce the final black and white mask
-        const outputCanvas = document.createElement('canvas');
-        outputCanvas.width = canvas.width;
-        outputCanvas.height = canvas.height;
-        const ctx = outputCanvas.getContext('2d');
-
-        if (!ctx) return null;
-
-        // Fill with black
-        ctx.fillStyle = 'black';
-        ctx.fillRect(0, 0, outputCanvas.width, outputCanvas.height);
+    // Saves the mask as it is before a change, for Undo Stroke
+    const pushMaskUndo = useCallback(() => {
+        const canvas = maskCanvasRef.current;
+        if (!canvas) return;
+        maskUndoRef.current = [...maskUndoRef.current, snapshotMask(canvas)].slice(-MAX_MASK_UNDO);
+        setMaskUndoCount(maskUndoRef.current.length);
+    }, []);
 
-        // Draw the user's mask in white on top
-        ctx.drawImage(canvas, 0, 0);
+    const handleUndoMask = useCallback(async () => {
+        const canvas = maskCanvasRef.current;
+        const snapshot = maskUndoRef.current.pop();
+        setMaskUndoCount(maskUndoRef.current.length);
+        if (!canvas || !snapshot) return;
+        try {
+            await restoreMask(canvas, await snapshot);
+        } catch (err) {
+            console.error('Failed to undo the mask change:', err);
+        }
+    }, []);
 
-        return new Promise((resolve) => {
-            outputCanvas.toBlob((blob) => {
-                if (!blob) {
-                    resolve(null);
-                    return;
-                }
-                resolve(new File([blob], 'mask.png', { type: 'image/png' }));
-            }, 'image/png');
-        });
+    // Empties the mask and its undo stack, e.g. once it has been used
+    const resetMask = useCallback(() => {
+        const canvas = maskCanvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (ctx && canvas) {
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+        }
+        maskUndoRef.current = [];
+        setMaskUndoCount(0);
+        setShapeDraft(null);
+        setActiveObjectIds([]);
     }, []);
-    
+
     const handleClearMask = useCallback(() => {
         const canvas = maskCanvasRef.current;
         const ctx = canvas?.getContext('2d');
         if (ctx && canvas) {
+            pushMaskUndo();
             ctx.clearRect(0, 0, canvas.width, canvas.height);
         }
+        setActiveObjectIds([]);
+    }, [pushMaskUndo]);
+
+    const handleInvertMask = useCallback(() => {
+        const canvas = maskCanvasRef.current;
+        if (!canvas) return;
+        pushMaskUndo();
+        invertMask(canvas, maskOverlay.color);
+    }, [pushMaskUndo, maskOverlay.color]);
+
+    const handleMaskOverlayChange = useCallback((overlay: MaskOverlay) => {
+        setMaskOverlayState(overlay);
+        setMaskOverlay(overlay);
+        if (maskCanvasRef.current) recolorMask(maskCanvasRef.current, overlay.color);
+    }, []);
+
+    const handleMaskToolChange = useCallback((tool: MaskTool) => {
+        setMaskTool(tool);
+        setShapeDraft(null);
     }, []);
 
+    // Detections belong to the image they were made for
+    useEffect(() => {
+        setDetectedObjects(null);
+        setActiveObjectIds([]);
+        setHoveredObject(null);
+        setPendingMaskObjects([]);
+    }, [currentImage]);
+
+    // Suggestions are requested once the user settles on an image, and only when
+    // the model can be reached. Failures are quiet: the static lists stay in place.
+    useEffect(() => {
+        setImageSuggestions(null);
+        setIsFetchingSuggestions(false);
+        const provider = getImageEditProvider();
+        if (!currentImage || batchImages.length > 0 || !provider.analyzeImage || !navigator.onLine) return;
+        if (provider.requiresApiKey && !isApiKeyConfigured) return;
+
+        const controller = new AbortController();
+        const timer = window.setTimeout(async () => {
+            setIsFetchingSuggestions(true);
+            try {
+                setImageSuggestions(await suggestPrompts(currentImage, { signal: controller.signal }));
+            } catch (err) {
+                if (!isCancellation(err)) {
+                    console.warn('Could not get prompt suggestions for this image; using the defaults.', err);
+                }
+            } finally {
+                if (!controller.signal.aborted) setIsFetchingSuggestions(false);
+            }
+        }, SUGGESTION_DELAY_MS);
+        return () => {
+            window.clearTimeout(timer);
+            controller.abort();
+        };
+    }, [currentImage, batchImages.length, isApiKeyConfigured]);
+
+    const suggestions = imageSuggestions ?? STATIC_SUGGESTIONS;
+    const suggestionSource: SuggestionSource = imageSuggestions ? 'tailored' : isFetchingSuggestions ? 'fetching' : 'static';
+
+    const handleDetectObjects = useCallback(async () => {
+        if (!currentImage) {
+            setError('No image loaded to detect objects in.');
+            return;
+        }
+        setIsLoading(true);
+        setError(null);
+        const signal = startOperation();
+        try {
+            const objects = await detectObjects(currentImage, { signal });
+            setDetectedObjects(objects);
+            setActiveObjectIds([]);
+            if (objects.length === 0) {
+                setWarning('No distinct objects were found in this image.');
+            }
+        } catch (err) {
+            if (isCancellation(err)) {
+                console.log('Object detection cancelled by user.');
+                return;
+            }
+            const errorMessage = getUserMessage(err);
+            setError(`Failed to detect objects. ${errorMessage}`);
+            console.error(err);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [currentImage, startOperation]);
+
+    // On the Edit and Products tabs an object becomes the selection; on Adjust and Filters it is added to the mask.
+    const handleSelectObject = useCallback((object: DetectedObject) => {
+        if (activeTab === 'edit' || activeTab === 'products') {
+            if (!imgRef.current) return;
+            const rect = naturalRectToPercent(object.box, getNaturalSize(imgRef.current));
+            setEditCrop({ unit: '%', ...rect });
+            setCompletedEditCrop({ unit: '%', ...rect });
+            setActiveObjectIds([object.id]);
+            return;
+        }
+        if (activeObjectIds.includes(object.id)) return;
+        setIsMasking(true);
+        setPendingMaskObjects(objects => [...objects, object]);
+        setActiveObjectIds(ids => [...ids, object.id]);
+    }, [activeTab, activeObjectIds]);
+
+    useEffect(() => {
+        if (!isMasking || pendingMaskObjects.length === 0) return;
+        const canvas = maskCanvasRef.current;
+        const image = imgRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !image || !ctx) return;
+        // A freshly mounted canvas still has its default size
+        syncMaskCanvasSize();
+        const imageSize = getNaturalSize(image);
+        pushMaskUndo();
+        Promise.all(pendingMaskObjects.map(object => drawObjectMask(ctx, object, imageSize)))
+            .then(() => recolorMask(canvas, maskOverlay.color))
+            .catch(err => console.error('Failed to draw object masks:', err));
+        setPendingMaskObjects([]);
+    }, [isMasking, pendingMaskObjects, pushMaskUndo, syncMaskCanvasSize, maskOverlay.color]);
+
     const handleApplyFilter = useCallback(async (filterPrompt: string) => {
     if (batchImages.length > 0) {
         return handleBatchApply(filterPrompt, 'filter');
@@ -544,6 +1172,7 @@ const App: React.FC = () => {
     }
     setIsLoading(true);
     setError(null);
+    const signal = startOperation();
     try {
         let maskFile: File | null = null;
         if (isMasking) {
@@ -555,19 +1184,22 @@ const App: React.FC = () => {
             }
         }
 
-        const filteredImageUrl = await generateFilteredImage(currentImage, filterPrompt, maskFile);
-        const newImageFile = dataURLtoFile(filteredImageUrl, `filtered-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const generation = snapshotGeneration('filter');
+        await produceResult('filtered', { operation: 'filter', prompt: filterPrompt, mask: maskFile, generation }, variant => generateFilteredImage(currentImage, filterPrompt, maskFile, { ...resultOptions, settings: generation.settings, signal, variant }));
         addFilterPrompt(filterPrompt);
-        if (isMasking) handleClearMask();
+        if (isMasking) resetMask();
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        if (isCancellation(err)) {
+            console.log('Filter cancelled by user.');
+            return;
+        }
+        const errorMessage = getUserMessage(err);
         setError(`Failed to apply the filter. ${errorMessage}`);
         console.error(err);
     } finally {
         setIsLoading(false);
     }
-  }, [currentImage, addImageToHistory, batchImages, handleBatchApply, isMasking, getMaskAsFile, handleClearMask, addFilterPrompt]);
+  }, [currentImage, produceResult, batchImages, handleBatchApply, isMasking, getMaskAsFile, resetMask, addFilterPrompt, startOperation, resultOptions]);
   
   const handleApplyAdjustment = useCallback(async (adjustmentPrompt: string) => {
     if (batchImages.length > 0) {
@@ -580,6 +1212,7 @@ const App: React.FC = () => {
     
     setIsLoading(true);
     setError(null);
+    const signal = startOperation();
     
     try {
         let maskFile: File | null = null;
@@ -591,19 +1224,22 @@ const App: React.FC = () => {
                 return;
             }
         }
-        const adjustedImageUrl = await generateAdjustedImage(currentImage, adjustmentPrompt, maskFile);
-        const newImageFile = dataURLtoFile(adjustedImageUrl, `adjusted-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const generation = snapshotGeneration('adjust');
+        await produceResult('adjusted', { operation: 'adjust', prompt: adjustmentPrompt, mask: maskFile, generation }, variant => generateAdjustedImage(currentImage, adjustmentPrompt, maskFile, { ...resultOptions, settings: generation.settings, signal, variant }));
         addAdjustPrompt(adjustmentPrompt);
-        if (isMasking) handleClearMask();
+        if (isMasking) resetMask();
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        if (isCancellation(err)) {
+            console.log('Adjustment cancelled by user.');
+            return;
+        }
+        const errorMessage = getUserMessage(err);
         setError(`Failed to apply the adjustment. ${errorMessage}`);
         console.error(err);
     } finally {
         setIsLoading(false);
     }
-  }, [currentImage, addImageToHistory, batchImages, handleBatchApply, isMasking, getMaskAsFile, handleClearMask, addAdjustPrompt]);
+  }, [currentImage, produceResult, batchImages, handleBatchApply, isMasking, getMaskAsFile, resetMask, addAdjustPrompt, startOperation, resultOptions]);
 
   const handleApplyCrop = useCallback(() => {
     if (!completedCrop || !imgRef.current) {
@@ -611,13 +1247,16 @@ const App: React.FC = () => {
         return;
     }
 
-    const image = imgRef.current;
+    // Crop in natural pixels so the result keeps the image's full resolution
+    const rect = percentRectToNatural(completedCrop, getNaturalSize(imgRef.current));
+    if (rect.width === 0 || rect.height === 0) {
+        setError('Please select an area to crop.');
+        return;
+    }
+
     const canvas = document.createElement('canvas');
-    const scaleX = image.naturalWidth / image.width;
-    const scaleY = image.naturalHeight / image.height;
-    
-    canvas.width = completedCrop.width;
-    canvas.height = completedCrop.height;
+    canvas.width = rect.width;
+    canvas.height = rect.height;
     const ctx = canvas.getContext('2d');
 
     if (!ctx) {
@@ -625,27 +1264,11 @@ const App: React.FC = () => {
         return;
     }
 
-    const pixelRatio = window.devicePixelRatio || 1;
-    canvas.width = completedCrop.width * pixelRatio;
-    canvas.height = completedCrop.height * pixelRatio;
-    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
-    ctx.imageSmoothingQuality = 'high';
-
-    ctx.drawImage(
-      image,
-      completedCrop.x * scaleX,
-      completedCrop.y * scaleY,
-      completedCrop.width * scaleX,
-      completedCrop.height * scaleY,
-      0,
-      0,
-      completedCrop.width,
-      completedCrop.height,
-    );
+    ctx.drawImage(imgRef.current, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
     
     const croppedImageUrl = canvas.toDataURL('image/png');
     const newImageFile = dataURLtoFile(croppedImageUrl, `cropped-${Date.now()}.png`);
-    addImageToHistory(newImageFile);
+    addImageToHistory(newImageFile, { operation: 'crop', selection: rect });
 
   }, [completedCrop, addImageToHistory]);
 
@@ -657,41 +1280,26 @@ const App: React.FC = () => {
 
     const img = new Image();
     img.onload = async () => {
-        const originalWidth = img.naturalWidth;
-        const originalHeight = img.naturalHeight;
-        const originalAspect = originalWidth / originalHeight;
-
-        let targetWidth: number, targetHeight: number;
-
-        // Determine the new dimensions while preserving one original dimension
-        if (aspectRatio > originalAspect) {
-            // New aspect is wider, so we match the height and expand the width
-            targetHeight = originalHeight;
-            targetWidth = Math.round(originalHeight * aspectRatio);
-        } else {
-            // New aspect is taller, so we match the width and expand the height
-            targetWidth = originalWidth;
-            targetHeight = Math.round(originalWidth / aspectRatio);
-        }
-        
-        // Limit max dimension to avoid overly large requests
-        const MAX_DIMENSION = 2048;
-        if (targetWidth > MAX_DIMENSION || targetHeight > MAX_DIMENSION) {
-            const scale = Math.min(MAX_DIMENSION / targetWidth, MAX_DIMENSION / targetHeight);
-            targetWidth = Math.round(targetWidth * scale);
-            targetHeight = Math.round(targetHeight * scale);
-            console.warn(`Uncrop dimensions too large, scaled down to ${targetWidth}x${targetHeight}`);
-        }
-
         setIsLoading(true);
         setError(null);
+        const signal = startOperation();
         
         try {
-            const uncroppedImageUrl = await generateUncroppedImage(currentImage, targetWidth, targetHeight);
+            const { width: targetWidth, height: targetHeight, scale } = getUncropSize(getNaturalSize(img), aspectRatio);
+            const generation = snapshotGeneration('uncrop');
+            const startedAt = Date.now();
+            const uncroppedImageUrl = await generateUncroppedImage(currentImage, targetWidth, targetHeight, { ...resultOptions, settings: generation.settings, signal });
             const newImageFile = dataURLtoFile(uncroppedImageUrl, `uncropped-${Date.now()}.png`);
-            addImageToHistory(newImageFile);
+            addImageToHistory(newImageFile, { operation: 'uncrop', generation, durationMs: Date.now() - startedAt });
+            if (scale < 1) {
+                setWarning(`The expanded image was reduced to ${targetWidth}x${targetHeight} to stay within the browser's canvas limits.`);
+            }
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            if (isCancellation(err)) {
+                console.log('Uncrop cancelled by user.');
+                return;
+            }
+            const errorMessage = getUserMessage(err);
             setError(`Failed to uncrop the image. ${errorMessage}`);
             console.error(err);
         } finally {
@@ -703,47 +1311,60 @@ const App: React.FC = () => {
         setIsLoading(false);
     };
     img.src = URL.createObjectURL(currentImage);
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, addImageToHistory, startOperation, resultOptions]);
+
+  const goToHistoryStep = useCallback((index: number) => {
+    const entry = activePath[index];
+    if (!entry) return;
+    setCurrentId(entry.id);
+    setEditCrop(undefined);
+    setCompletedEditCrop(undefined);
+    handleDiscardVariants();
+    resetView();
+  }, [activePath, resetView, handleDiscardVariants]);
+
+  // Switching branches shows the end of the branch, so redo has nowhere further to go
+  const handleSwitchBranch = useCallback((leafId: string) => {
+    setTipId(getLatestLeafId(history, leafId));
+    setCurrentId(leafId);
+    setComparedBranches(null);
+    setEditCrop(undefined);
+    setCompletedEditCrop(undefined);
+    handleDiscardVariants();
+    resetView();
+  }, [history, resetView, handleDiscardVariants]);
 
   const handleUndo = useCallback(() => {
-    if (canUndo) {
-      setHistoryIndex(historyIndex - 1);
-      setEditCrop(undefined);
-      setCompletedEditCrop(undefined);
-      resetView();
-    }
-  }, [canUndo, historyIndex, resetView]);
+    if (canUndo) goToHistoryStep(historyIndex - 1);
+  }, [canUndo, historyIndex, goToHistoryStep]);
   
   const handleRedo = useCallback(() => {
-    if (canRedo) {
-      setHistoryIndex(historyIndex + 1);
-      setEditCrop(undefined);
-      setCompletedEditCrop(undefined);
-      resetView();
-    }
-  }, [canRedo, historyIndex, resetView]);
+    if (canRedo) goToHistoryStep(historyIndex + 1);
+  }, [canRedo, historyIndex, goToHistoryStep]);
 
   const handleReset = useCallback(() => {
     if (history.length > 0) {
-      setHistoryIndex(0);
       setError(null);
-      setEditCrop(undefined);
-      setCompletedEditCrop(undefined);
-      resetView();
+      goToHistoryStep(0);
     }
-  }, [history, resetView]);
+  }, [history.length, goToHistoryStep]);
 
   const handleUploadNew = useCallback(() => {
+      abortControllerRef.current?.abort();
       setHistory([]);
-      setHistoryIndex(-1);
+      setCurrentId(null);
+      setTipId(null);
+      setSession(null);
+      setComparedBranches(null);
       setBatchImages([]);
       setError(null);
+      setWarning(null);
       setEditPrompt('');
       setEditCrop(undefined);
       setCompletedEditCrop(undefined);
-      localStorage.removeItem(AUTOSAVE_KEY);
+      handleDiscardVariants();
       resetView();
-  }, [resetView]);
+  }, [resetView, handleDiscardVariants]);
 
   const handleDownload = useCallback(() => {
       if (currentImage) {
@@ -757,6 +1378,24 @@ const App: React.FC = () => {
       }
   }, [currentImage]);
 
+  const handleSaveProject = useCallback(async () => {
+    if (history.length === 0 || !currentId || !tipId) return;
+    const name = session?.name ?? history[0].file.name.replace(/\.[^.]+$/, '');
+    try {
+        const archive = await createProjectArchive(name, { history, currentId, tipId });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(archive);
+        link.download = `${name}${PROJECT_EXTENSION}`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+    } catch (err) {
+        console.error('Failed to save the project:', err);
+        setError('The project file could not be created.');
+    }
+  }, [history, currentId, tipId, session]);
+
   const handleDownloadBatch = async () => {
     const zip = new JSZip();
     const editedImages = batchImages.filter(img => img.status === 'done' && img.editedUrl);
@@ -807,19 +1446,23 @@ const App: React.FC = () => {
   }, []);
 
   const handleCancelBatch = () => {
-    if (window.confirm('Are you sure you want to cancel the batch operation? Any images currently being processed will finish, but no new images will be started.')) {
-        isCancellingRef.current = true;
+    if (window.confirm('Are you sure you want to cancel the batch operation? The image currently being processed will be stopped and no new images will be started.')) {
+        handleCancelOperation();
     }
   };
   
   const handleFileSelect = (files: FileList | null) => {
     if (files && files.length > 0) {
-      if (files.length === 1) {
+      if (files.length === 1 && isProjectFile(files[0])) {
+        handleOpenProject(files[0]);
+      } else if (files.length === 1) {
         handleImageUpload(files[0]);
       } else {
         setError(null);
         setHistory([]);
-        setHistoryIndex(-1);
+        setCurrentId(null);
+        setTipId(null);
+        setSession(null);
         const newBatchImages: BatchImage[] = Array.from(files).map(file => ({
             id: `${file.name}-${file.lastModified}-${Math.random()}`,
             original: file,
@@ -834,80 +1477,118 @@ const App: React.FC = () => {
   const handleToggleMasking = useCallback(() => {
     setIsMasking(prev => {
         if (prev) { // turning it off
-            handleClearMask();
-        } else { // turning it on
-            const canvas = maskCanvasRef.current;
-            const image = imgRef.current;
-            if (canvas && image) {
-                // sync canvas size to image display size
-                canvas.width = image.clientWidth;
-                canvas.height = image.clientHeight;
-            }
+            resetMask();
         }
         return !prev;
     });
-  }, [handleClearMask]);
+  }, [resetMask]);
+
+  // The canvas mounts once masking is on, and is sized to the image then
+  useEffect(() => {
+    if (isMasking) syncMaskCanvasSize();
+  }, [isMasking, syncMaskCanvasSize]);
 
+  // Keeps the mask over the displayed image as the window or layout changes size
+  useEffect(() => {
+    const image = imgRef.current;
+    if (!isMaskActive || !image) return;
+    const update = () => setMaskBox({ left: image.offsetLeft, top: image.offsetTop, width: image.offsetWidth, height: image.offsetHeight });
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(image);
+    return () => observer.disconnect();
+  }, [isMaskActive, displayedImageUrl]);
 
   const handleTabChange = useCallback((tab: Tab) => {
     setActiveTab(tab);
-    // Disable and clear masking if switching to an incompatible tab
-    if (tab !== 'adjust' && tab !== 'filters' && isMasking) {
-        handleClearMask();
-        setIsMasking(false);
+    // Objects chosen as a selection on one tab are not part of a mask on another.
+    // The mask itself is kept, so it is still there on returning to Adjust or Filters.
+    const isMaskTab = (t: Tab) => t === 'adjust' || t === 'filters';
+    if (isMaskTab(tab) !== isMaskTab(activeTab)) {
+        setActiveObjectIds([]);
     }
-  }, [isMasking, handleClearMask]);
+  }, [activeTab]);
 
   const handleTryPrompt = useCallback((prompt: string, type: 'filters' | 'adjust') => {
     setPromptToTry({ prompt, type });
     setCurrentPage('editor');
   }, []);
 
-    const getPointOnImage = (e: React.MouseEvent<HTMLDivElement>): { x: number; y: number } | null => {
-        const viewport = viewportRef.current;
-        if (!viewport) return null;
-        
-        const rect = viewport.getBoundingClientRect();
-        // Mouse position relative to the viewport element
-        const mouseX = e.clientX - rect.left;
-        const mouseY = e.clientY - rect.top;
-
-        // Convert viewport coordinates to the coordinates on the untransformed image/canvas
-        const imageX = (mouseX - pan.x) / zoom;
-        const imageY = (mouseY - pan.y) / zoom;
-        
-        return { x: imageX, y: imageY };
+    // Maps the pointer onto the mask canvas's own pixels, whatever the zoom and pan.
+    const getPointOnMask = (e: React.MouseEvent<HTMLDivElement>): { x: number; y: number } | null => {
+        const canvas = maskCanvasRef.current;
+        if (!canvas) return null;
+        return clientPointToTarget(e.clientX, e.clientY, canvas, canvas);
     };
 
     const drawLine = (start: { x: number, y: number }, end: { x: number, y: number }) => {
         const canvas = maskCanvasRef.current;
         const ctx = canvas?.getContext('2d');
-        if (!ctx) return;
-        ctx.beginPath();
-        ctx.moveTo(start.x, start.y);
-        ctx.lineTo(end.x, end.y);
-        ctx.strokeStyle = 'white';
-        ctx.lineWidth = brushSize / zoom; // Scale brush size with zoom
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-        ctx.stroke();
+        if (!canvas || !ctx) return;
+        const width = brushSize * screenToTargetScale(canvas, canvas); // Brush size is in screen pixels
+        paintStroke(ctx, start, end, width, maskOverlay.color, maskTool === 'eraser');
+    };
+
+    const commitShape = (draft: NonNullable<typeof shapeDraft>) => {
+        const ctx = maskCanvasRef.current?.getContext('2d');
+        setShapeDraft(null);
+        const [start, end] = [draft.points[0], draft.points[draft.points.length - 1]];
+        const isEmpty = draft.tool === 'lasso' ? draft.points.length < 3 : start.x === end.x || start.y === end.y;
+        if (!ctx || isEmpty) return;
+        pushMaskUndo();
+        paintShape(ctx, draft.tool, draft.points, maskOverlay.color, draft.erase);
     };
 
     const handleMaskMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
-        if (isPanning || !isMasking || e.button !== 0) return;
-        isDrawingRef.current = true;
-        const coords = getPointOnImage(e);
-        if (coords) {
-            lastPositionRef.current = coords;
-            // Draw a dot for single clicks
-            drawLine(coords, { x: coords.x, y: coords.y });
+        if (isPanning || !isMaskActive || e.button !== 0) return;
+        const canvas = maskCanvasRef.current;
+        const coords = getPointOnMask(e);
+        if (!canvas || !coords) return;
+
+        switch (maskTool) {
+            case 'brush':
+            case 'eraser':
+                pushMaskUndo();
+                isDrawingRef.current = true;
+                lastPositionRef.current = coords;
+                // Draw a dot for single clicks
+                drawLine(coords, { x: coords.x, y: coords.y });
+                break;
+            case 'rectangle':
+            case 'ellipse':
+                setShapeDraft({ tool: maskTool, points: [coords, coords], cursor: null, erase: e.altKey });
+                break;
+            case 'lasso': {
+                if (!shapeDraft) {
+                    setShapeDraft({ tool: 'lasso', points: [coords], cursor: coords, erase: e.altKey });
+                    break;
+                }
+                // Clicking near the first point closes the lasso
+                const first = shapeDraft.points[0];
+                const closeDistance = 10 * screenToTargetScale(canvas, canvas);
+                if (shapeDraft.points.length >= 3 && Math.hypot(coords.x - first.x, coords.y - first.y) <= closeDistance) {
+                    commitShape(shapeDraft);
+                } else {
+                    setShapeDraft({ ...shapeDraft, points: [...shapeDraft.points, coords] });
+                }
+                break;
+            }
+            case 'fill':
+                pushMaskUndo();
+                floodFillMask(canvas, coords, maskOverlay.color, e.altKey);
+                break;
         }
     };
 
     const handleMaskMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
-        if (isPanning || !isMasking || !isDrawingRef.current) return;
-        const coords = getPointOnImage(e);
-        if (coords && lastPositionRef.current) {
+        if (isPanning || !isMaskActive) return;
+        const coords = getPointOnMask(e);
+        if (!coords) return;
+        if (shapeDraft?.tool === 'lasso') {
+            setShapeDraft({ ...shapeDraft, cursor: coords });
+        } else if (shapeDraft) {
+            setShapeDraft({ ...shapeDraft, points: [shapeDraft.points[0], coords] });
+        } else if (isDrawingRef.current && lastPositionRef.current) {
             drawLine(lastPositionRef.current, coords);
             lastPositionRef.current = coords;
         }
@@ -916,6 +1597,30 @@ const App: React.FC = () => {
     const handleMaskMouseUp = () => {
         isDrawingRef.current = false;
         lastPositionRef.current = null;
+        if (shapeDraft && shapeDraft.tool !== 'lasso') {
+            commitShape(shapeDraft);
+        }
+    };
+
+    const handleMaskDoubleClick = () => {
+        if (isMaskActive && shapeDraft?.tool === 'lasso') {
+            commitShape(shapeDraft);
+        }
+    };
+
+    const maskToolbar: MaskToolbarProps = {
+        tool: maskTool,
+        onToolChange: handleMaskToolChange,
+        brushSize,
+        onBrushSizeChange: setBrushSize,
+        featherRadius: maskFeather,
+        onFeatherRadiusChange: setMaskFeather,
+        overlay: maskOverlay,
+        onOverlayChange: handleMaskOverlayChange,
+        onInvert: handleInvertMask,
+        onUndo: handleUndoMask,
+        canUndo: maskUndoCount > 0,
+        onClear: handleClearMask,
     };
     
     // --- Zoom and Pan handlers ---
@@ -994,6 +1699,20 @@ const App: React.FC = () => {
       
       const isBatchMode = batchImages.length > 0;
 
+      // Escape cancels a running single-image operation
+      if (e.key === 'Escape' && isLoading && !isBatchMode) {
+        e.preventDefault();
+        handleCancelOperation();
+        return;
+      }
+
+      // Escape also drops a mask shape that is being drawn
+      if (e.key === 'Escape' && shapeDraft) {
+        e.preventDefault();
+        setShapeDraft(null);
+        return;
+      }
+
       // Ctrl/Cmd + Enter for applying action
       if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') {
         e.preventDefault();
@@ -1012,10 +1731,20 @@ const App: React.FC = () => {
           case 'crop':
             if (!isBatchMode && completedCrop?.width && completedCrop.width > 0) handleApplyCrop();
             break;
+          case 'products':
+            if (!isBatchMode && selectedProduct && completedEditCrop?.width) handlePlaceProduct();
+            break;
         }
         return;
       }
 
+      // Request inspector, available in batch mode too
+      if (e.altKey && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        setIsDebugModalOpen(open => !open);
+        return;
+      }
+
       // Shortcuts disabled in batch mode
       if(isBatchMode) return;
 
@@ -1043,6 +1772,7 @@ const App: React.FC = () => {
               case '3': e.preventDefault(); handleTabChange('adjust'); break;
               case '4': e.preventDefault(); handleTabChange('filters'); break;
               case '5': e.preventDefault(); handleTabChange('uncrop'); break;
+              case '6': e.preventDefault(); handleTabChange('products'); break;
               case 'r': e.preventDefault(); handleReset(); break;
               case 'u': e.preventDefault(); handleUploadNew(); break;
               case 'v': e.preventDefault(); resetView(); break;
@@ -1056,7 +1786,7 @@ const App: React.FC = () => {
       }
       
       // Compare
-      if (e.key.toLowerCase() === 'c' && canUndo) {
+      if (e.key.toLowerCase() === 'c' && canCompare) {
         setIsComparing(true);
       }
     };
@@ -1067,7 +1797,7 @@ const App: React.FC = () => {
           isSpacePressedRef.current = false;
           const viewport = viewportRef.current;
           if (viewport && !isPanning) {
-               viewport.style.cursor = isMasking ? 'crosshair' : 'default';
+               viewport.style.cursor = isMaskActive ? 'crosshair' : 'default';
           }
           return;
       }
@@ -1090,10 +1820,10 @@ const App: React.FC = () => {
       window.removeEventListener('keyup', handleKeyUp);
     };
   }, [
-    activeTab, canUndo, completedCrop, editPrompt, completedEditCrop, adjustmentPrompt, filterPrompt, isLoading, currentImage, batchImages,
-    handleGenerate, handleApplyAdjustment, handleApplyFilter, handleApplyCrop, 
-    handleUndo, handleRedo, handleReset, handleUploadNew, handleDownload, handleTabChange,
-    isMasking, isPanning, resetView
+    activeTab, canCompare, completedCrop, editPrompt, completedEditCrop, adjustmentPrompt, filterPrompt, isLoading, currentImage, batchImages, selectedProduct,
+    handleGenerate, handleApplyAdjustment, handleApplyFilter, handleApplyCrop, handlePlaceProduct,
+    handleUndo, handleRedo, handleReset, handleUploadNew, handleDownload, handleTabChange, handleCancelOperation,
+    isMaskActive, isPanning, resetView, shapeDraft
   ]);
 
   // Effect to manage cursor style
@@ -1105,12 +1835,12 @@ const App: React.FC = () => {
         viewport.style.cursor = 'grabbing';
     } else if (isSpacePressedRef.current) {
         viewport.style.cursor = 'grab';
-    } else if (isMasking && (activeTab === 'adjust' || activeTab === 'filters')) {
+    } else if (isMaskActive) {
         viewport.style.cursor = 'crosshair';
     } else {
         viewport.style.cursor = 'default';
     }
-  }, [isPanning, isMasking, activeTab]);
+  }, [isPanning, isMaskActive]);
 
 
   const renderSingleImageEditor = () => {
@@ -1118,21 +1848,22 @@ const App: React.FC = () => {
     const currentImageElement = (
         <img
             ref={imgRef}
-            key={currentImageUrl}
-            src={currentImageUrl!}
+            key={displayedImageUrl}
+            src={displayedImageUrl!}
             alt="Current"
             className="block max-w-full max-h-full rounded-xl"
             style={{ imageRendering: zoom > 1 ? 'pixelated' : 'auto' }}
-            onLoad={(e) => {
-                if (isMasking && maskCanvasRef.current) {
-                    const img = e.currentTarget;
-                    maskCanvasRef.current.width = img.clientWidth;
-                    maskCanvasRef.current.height = img.clientHeight;
-                }
+            onLoad={() => {
+                // The mask survives undo, redo and tab switches as long as the image keeps its size
+                if (isMasking) syncMaskCanvasSize();
             }}
         />
     );
 
+    const hoveredObjectRect = hoveredObject && imgRef.current
+        ? naturalRectToPercent(hoveredObject.box, getNaturalSize(imgRef.current))
+        : null;
+
     // Determines the interactive editor content based on the active tab
     const editorContent = (() => {
         if (activeTab === 'crop') {
@@ -1140,7 +1871,7 @@ const App: React.FC = () => {
               <ReactCrop
                 crop={crop}
                 onChange={c => setCrop(c)}
-                onComplete={c => setCompletedCrop(c)}
+                onComplete={(_, percentCrop) => setCompletedCrop(percentCrop)}
                 aspect={aspect}
                 disabled={isComparing}
               >
@@ -1148,12 +1879,15 @@ const App: React.FC = () => {
               </ReactCrop>
             );
         }
-        if (activeTab === 'edit') {
+        if (activeTab === 'edit' || activeTab === 'products') {
             return (
               <ReactCrop
                 crop={editCrop}
-                onChange={c => setEditCrop(c)}
-                onComplete={c => setCompletedEditCrop(c)}
+                onChange={c => {
+                  setEditCrop(c);
+                  setActiveObjectIds([]);
+                }}
+                onComplete={(_, percentCrop) => setCompletedEditCrop(percentCrop)}
                 disabled={isComparing}
               >
                   {currentImageElement}
@@ -1187,11 +1921,19 @@ const App: React.FC = () => {
                 handlePanMouseUp(e);
                 handleMaskMouseUp();
             }}
+            onDoubleClick={handleMaskDoubleClick}
         >
             {isLoading && (
                 <div className="absolute inset-0 bg-black/70 z-50 flex flex-col items-center justify-center gap-4 animate-fade-in">
                     <Spinner />
                     <p className="text-gray-300">{loadingMessage}</p>
+                    <button
+                        onClick={handleCancelOperation}
+                        title="Cancel (Esc)"
+                        className="px-4 py-2 text-sm font-semibold text-gray-100 bg-white/10 border border-white/20 rounded-full hover:bg-white/20"
+                    >
+                        Cancel
+                    </button>
                 </div>
             )}
 
@@ -1205,10 +1947,10 @@ const App: React.FC = () => {
             >
                 <div className="relative max-h-[65vh] flex items-center justify-center">
                     {/* Before/After comparison layers */}
-                    {originalImageUrl && (
+                    {comparisonImageUrl && (
                         <img
-                            key={originalImageUrl}
-                            src={originalImageUrl}
+                            key={comparisonImageUrl}
+                            src={comparisonImageUrl}
                             alt="Original"
                             className="block max-w-full max-h-full rounded-xl"
                         />
@@ -1217,14 +1959,51 @@ const App: React.FC = () => {
                         {editorContent}
                     </div>
 
-                    {/* MASKING CANVAS - overlays the comparison view */}
-                    {isMasking && (activeTab === 'adjust' || activeTab === 'filters') && (
-                        <canvas
-                            ref={maskCanvasRef}
-                            className="absolute top-0 left-0 w-full h-full z-20 pointer-events-none"
-                            style={{ backgroundColor: 'rgba(230, 0, 0, 0.1)' }}
+                    {/* Outline of the object card under the pointer */}
+                    {hoveredObjectRect && !isComparing && (
+                        <div
+                            className="absolute z-30 pointer-events-none border-2 border-blue-400 bg-blue-400/20 rounded-sm"
+                            style={{ left: `${hoveredObjectRect.x}%`, top: `${hoveredObjectRect.y}%`, width: `${hoveredObjectRect.width}%`, height: `${hoveredObjectRect.height}%` }}
                         />
                     )}
+
+                    {/* MASKING CANVAS - laid over the displayed image; kept while on other tabs */}
+                    {isMasking && (
+                        <div
+                            className={`absolute z-20 pointer-events-none ${isMaskActive && maskBox ? '' : 'hidden'}`}
+                            style={maskBox ?? undefined}
+                        >
+                            <canvas
+                                ref={maskCanvasRef}
+                                className="block w-full h-full"
+                                // The preview shows the feather the mask will be sent with
+                                style={{ opacity: maskOverlay.opacity, filter: maskFeather > 0 ? `blur(${maskFeather}px)` : undefined }}
+                            />
+                            {shapeDraft && maskCanvasRef.current && (
+                                <svg
+                                    className="absolute top-0 left-0 w-full h-full"
+                                    viewBox={`0 0 ${maskCanvasRef.current.width} ${maskCanvasRef.current.height}`}
+                                    preserveAspectRatio="none"
+                                >
+                                    {(() => {
+                                        const outline = { fill: 'none', stroke: maskOverlay.color, strokeWidth: 2, strokeDasharray: '6 4', vectorEffect: 'non-scaling-stroke' as const };
+                                        if (shapeDraft.tool === 'lasso') {
+                                            const points = [...shapeDraft.points, ...(shapeDraft.cursor ? [shapeDraft.cursor] : [])];
+                                            return <polyline points={points.map(point => `${point.x},${point.y}`).join(' ')} {...outline} />;
+                                        }
+                                        const [start, end] = shapeDraft.points;
+                                        const x = Math.min(start.x, end.x);
+                                        const y = Math.min(start.y, end.y);
+                                        const width = Math.abs(end.x - start.x);
+                                        const height = Math.abs(end.y - start.y);
+                                        return shapeDraft.tool === 'rectangle'
+                                            ? <rect x={x} y={y} width={width} height={height} {...outline} />
+                                            : <ellipse cx={x + width / 2} cy={y + height / 2} rx={width / 2} ry={height / 2} {...outline} />;
+                                    })()}
+                                </svg>
+                            )}
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -1232,7 +2011,7 @@ const App: React.FC = () => {
             <div className={`absolute top-3 left-3 px-3 py-1 text-sm font-bold rounded-full bg-black/60 text-white transition-opacity duration-300 z-30 ${isComparing ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
                 Before
             </div>
-            {canUndo && (
+            {canCompare && (
                 <div className={`absolute top-3 left-3 px-3 py-1 text-sm font-bold rounded-full bg-black/60 text-white transition-opacity duration-300 z-30 ${!isComparing ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
                     After
                 </div>
@@ -1244,6 +2023,23 @@ const App: React.FC = () => {
               onReset={resetView}
             />
 
+            {warning && !error && (
+              <div
+                className="absolute bottom-4 left-1/2 -translate-x-1/2 w-11/12 max-w-2xl bg-amber-100 dark:bg-amber-900/50 border border-amber-400 dark:border-amber-500/50 text-amber-800 dark:text-amber-200 px-4 py-3 pr-12 rounded-lg shadow-lg z-50 animate-fade-in"
+                role="status"
+              >
+                <strong className="font-bold">Heads up: </strong>
+                <span className="block sm:inline">{warning}</span>
+                <button
+                  onClick={() => setWarning(null)}
+                  className="absolute top-0 bottom-0 right-0 px-4 py-3"
+                  aria-label="Close warning message"
+                >
+                  <span className="text-2xl text-amber-600 dark:text-amber-300">&times;</span>
+                </button>
+              </div>
+            )}
+
             {error && (
               <div 
                 className="absolute bottom-4 left-1/2 -translate-x-1/2 w-11/12 max-w-2xl bg-red-100 dark:bg-red-900/50 border border-red-400 dark:border-red-500/50 text-red-700 dark:text-red-200 px-4 py-3 rounded-lg shadow-lg z-50 animate-fade-in"
@@ -1293,7 +2089,7 @@ const App: React.FC = () => {
             </div>
             {/* Center: Tabs */}
             <div className="flex items-center gap-1 bg-gray-200 dark:bg-gray-800 p-1 rounded-full">
-              {(['edit', 'crop', 'adjust', 'filters', 'uncrop'] as const).map(tab => (
+              {(['edit', 'crop', 'adjust', 'filters', 'uncrop', 'products'] as const).map(tab => (
                   <button
                     key={tab}
                     onClick={() => handleTabChange(tab)}
@@ -1306,11 +2102,11 @@ const App: React.FC = () => {
             {/* Right Side: Compare/Download */}
             <div className="flex items-center gap-2">
                 <button 
-                    onMouseDown={() => canUndo && setIsComparing(true)}
+                    onMouseDown={() => canCompare && setIsComparing(true)}
                     onMouseUp={() => setIsComparing(false)}
                     onMouseLeave={() => setIsComparing(false)}
-                    disabled={!canUndo || isLoading}
-                    title="Hold to compare with original (Hold C)"
+                    disabled={!canCompare || isLoading}
+                    title={pendingVariants ? "Hold to compare with the current image (Hold C)" : "Hold to compare with original (Hold C)"}
                     className="px-4 py-2 flex items-center gap-2 font-semibold text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
                 >
                     <EyeIcon className="w-5 h-5" />
@@ -1323,6 +2119,13 @@ const App: React.FC = () => {
                 >
                     <DownloadIcon className="w-5 h-5" />
                 </button>
+                <button
+                    onClick={handleSaveProject}
+                    title="Save the whole editing session as a project file to open later or share"
+                    className="px-4 py-2 text-sm font-semibold text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600"
+                >
+                    Save Project
+                </button>
                 <button
                     onClick={handleUploadNew}
                     title="Upload new image (Alt + U)"
@@ -1334,6 +2137,148 @@ const App: React.FC = () => {
         </div>
 
         {/* --- PANELS --- */}
+        {history.length > 1 && !pendingVariants && (
+          <HistoryPanel
+            entries={activePath}
+            currentIndex={historyIndex}
+            onSelect={goToHistoryStep}
+            onReuseSettings={handleReuseGeneration}
+            disabled={isLoading}
+          />
+        )}
+        {!pendingVariants && (
+          <BranchNavigator
+            entries={history}
+            tipId={tipId}
+            onSwitch={handleSwitchBranch}
+            onCompare={setComparedBranches}
+            disabled={isLoading}
+          />
+        )}
+        {!pendingVariants && (
+          <RecipePanel
+            recipe={recipe}
+            onRecipeChange={handleRecipeChange}
+            onExport={historyIndex > 0 ? handleExportRecipe : undefined}
+            onApply={() => handleApplyRecipe()}
+            applyLabel="Apply to This Photo"
+            progress={recipeProgress}
+            isRunning={isRecipeRunning}
+            onRetryStep={recipeProgress?.error ? () => handleApplyRecipe(recipeProgress.stepIndex) : undefined}
+            onSkipStep={recipeProgress?.error ? () => handleApplyRecipe(recipeProgress.stepIndex + 1) : undefined}
+            disabled={isLoading}
+          />
+        )}
+        {pendingVariants && (
+          <VariantPicker
+            currentImageUrl={currentImageUrl}
+            variants={pendingVariants.urls}
+            driftWarnings={pendingVariants.driftWarnings}
+            selectedIndex={selectedVariantIndex}
+            onSelect={setSelectedVariantIndex}
+            onKeep={handleKeepVariant}
+            onDiscard={handleDiscardVariants}
+          />
+        )}
+        {(activeTab === 'edit' || activeTab === 'adjust' || activeTab === 'filters' || activeTab === 'uncrop' || activeTab === 'products') && (
+          <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2 -mb-2">
+            {activeTab !== 'uncrop' && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Variants per run:</span>
+                {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+                  <button
+                    key={count}
+                    onClick={() => setVariantCount(count)}
+                    disabled={isLoading}
+                    title={count === 1 ? 'Apply the result directly' : `Generate ${count} alternatives to choose from`}
+                    className={`w-9 h-9 rounded-full text-sm font-semibold transition-all duration-200 disabled:opacity-50 ${variantCount === count ? 'bg-blue-600 text-white shadow-md shadow-blue-500/20' : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'}`}
+                  >
+                    {count}
+                  </button>
+                ))}
+              </div>
+            )}
+            {(activeTab === 'edit' || activeTab === 'products' || isMaskActive) && (
+              <div className="flex items-center gap-2" title="Only the selected area can change; this softens the transition at its edge">
+                <label htmlFor="feather-radius" className="text-sm font-medium text-gray-600 dark:text-gray-400 whitespace-nowrap">Edge feather:</label>
+                <input
+                  id="feather-radius"
+                  type="range"
+                  min="0"
+                  max={MAX_FEATHER_RADIUS}
+                  step="1"
+                  value={featherRadius}
+                  onChange={(e) => setFeatherRadius(Number(e.target.value))}
+                  disabled={isLoading}
+                  className="w-24 cursor-pointer"
+                />
+                <span className="text-sm text-gray-500 dark:text-gray-400 tabular-nums w-10">{featherRadius}px</span>
+              </div>
+            )}
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-600 dark:text-gray-400 cursor-pointer" title="Regenerate results whose size, aspect ratio or composition drifted from the original">
+              <input
+                type="checkbox"
+                checked={retryOnDrift}
+                onChange={(e) => setRetryOnDrift(e.target.checked)}
+                disabled={isLoading}
+                className="w-4 h-4 cursor-pointer"
+              />
+              Auto-retry drifted results
+            </label>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-600 dark:text-gray-400 cursor-pointer" title="Call the AI even when an identical request has a cached result">
+              <input
+                type="checkbox"
+                checked={forceRegenerate}
+                onChange={(e) => setForceRegenerate(e.target.checked)}
+                disabled={isLoading}
+                className="w-4 h-4 cursor-pointer"
+              />
+              Force regenerate
+            </label>
+            <button
+              onClick={() => setIsSettingsModalOpen(true)}
+              className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Advanced settings
+            </button>
+          </div>
+        )}
+        {(activeTab === 'edit' || activeTab === 'adjust' || activeTab === 'filters' || activeTab === 'products') && !pendingVariants && (
+          <div className="w-full bg-gray-100 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-700 rounded-lg p-4 flex flex-col gap-3 animate-fade-in">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">Objects</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {activeTab === 'edit' || activeTab === 'products'
+                    ? 'Click a detected object to make it the selection.'
+                    : 'Click detected objects to add them to the mask.'}
+                </p>
+              </div>
+              <button
+                onClick={handleDetectObjects}
+                disabled={isLoading}
+                className="px-4 py-2 text-sm font-semibold text-blue-600 bg-blue-100 dark:bg-blue-900/50 dark:text-blue-300 rounded-full hover:bg-blue-200 dark:hover:bg-blue-900 disabled:opacity-50"
+              >
+                {detectedObjects ? 'Detect Again' : 'Detect Objects'}
+              </button>
+            </div>
+            {detectedObjects && detectedObjects.length > 0 && (
+              <div className="flex items-stretch gap-3 overflow-x-auto pb-1">
+                {detectedObjects.map(object => (
+                  <ObjectCard
+                    key={object.id}
+                    object={object}
+                    isActive={activeObjectIds.includes(object.id)}
+                    actionLabel={activeTab === 'edit' || activeTab === 'products' ? 'Select' : 'Add to mask'}
+                    onClick={handleSelectObject}
+                    onHover={setHoveredObject}
+                    disabled={isLoading}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
         {activeTab === 'edit' && (
           <div className="w-full bg-gray-100 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-700 rounded-lg p-4 flex flex-col items-center gap-4 animate-fade-in">
               <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">Magic Edit</h3>
@@ -1362,9 +2307,11 @@ const App: React.FC = () => {
 
               {completedEditCrop && (
                 <PromptSuggestions 
-                    suggestions={editSuggestions}
+                    suggestions={suggestions.edit}
                     onSelect={setEditPrompt}
                     isLoading={isLoading}
+                    source={suggestionSource}
+                    description={suggestions.description}
                 />
               )}
 
@@ -1378,6 +2325,34 @@ const App: React.FC = () => {
               </button>
           </div>
         )}
+        {activeTab === 'products' && (
+          <div className="w-full bg-gray-100 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-700 rounded-lg p-4 flex flex-col items-center gap-4 animate-fade-in">
+              <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">Product Placement</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 -mt-2">Choose a product, select where it should go on the image, then place it.</p>
+              <ProductSelector
+                selectedId={selectedProduct?.id ?? null}
+                onSelect={setSelectedProduct}
+                onAddProducts={() => setIsAddProductModalOpen(true)}
+                disabled={isLoading}
+              />
+              <input
+                  type="text"
+                  value={placementNotes}
+                  onChange={(e) => setPlacementNotes(e.target.value)}
+                  placeholder="Optional placement notes, e.g. 'standing on the table, turned slightly left'"
+                  className="w-full max-w-xl bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-100 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition disabled:cursor-not-allowed disabled:opacity-60 text-base"
+                  disabled={isLoading}
+              />
+              <button
+                  onClick={handlePlaceProduct}
+                  disabled={isLoading || !selectedProduct || !completedEditCrop?.width}
+                  title={!selectedProduct ? 'Choose a product first' : !completedEditCrop?.width ? 'Select the target area on the image' : 'Place product (Cmd/Ctrl + Enter)'}
+                  className="w-full max-w-xs mt-2 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+              >
+                  Place Product
+              </button>
+          </div>
+        )}
         {activeTab === 'crop' && (
           <CropPanel 
             onApplyCrop={handleApplyCrop} 
@@ -1401,11 +2376,14 @@ const App: React.FC = () => {
             onPromptChange={setAdjustmentPrompt}
             isMasking={isMasking}
             onToggleMasking={handleToggleMasking}
-            brushSize={brushSize}
-            onBrushSizeChange={(e) => setBrushSize(Number(e.target.value))}
-            onClearMask={handleClearMask}
+            maskToolbar={maskToolbar}
             promptHistory={adjustHistory}
             onClearHistory={clearAdjustHistory}
+            suggestions={suggestions.adjust}
+            suggestionSource={suggestionSource}
+            suggestionDescription={suggestions.description}
+            onEnhancePrompt={(prompt, useImage, signal) => enhancePrompt(prompt, 'adjust', useImage ? currentImage : null, { signal })}
+            canEnhanceWithImage
           />
         )}
         {activeTab === 'filters' && (
@@ -1416,11 +2394,14 @@ const App: React.FC = () => {
             onPromptChange={setFilterPrompt}
             isMasking={isMasking}
             onToggleMasking={handleToggleMasking}
-            brushSize={brushSize}
-            onBrushSizeChange={(e) => setBrushSize(Number(e.target.value))}
-            onClearMask={handleClearMask}
+            maskToolbar={maskToolbar}
             promptHistory={filterHistory}
             onClearHistory={clearFilterHistory}
+            suggestions={suggestions.filter}
+            suggestionSource={suggestionSource}
+            suggestionDescription={suggestions.description}
+            onEnhancePrompt={(prompt, useImage, signal) => enhancePrompt(prompt, 'filter', useImage ? currentImage : null, { signal })}
+            canEnhanceWithImage
           />
         )}
       </div>
@@ -1446,7 +2427,7 @@ const App: React.FC = () => {
             {image.status === 'processing' && (
                 <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center gap-2 text-white">
                     <Spinner />
-                    <span className="text-sm font-semibold">Processing...</span>
+                    <span className="text-sm font-semibold">{image.progress ?? 'Processing...'}</span>
                 </div>
             )}
             {image.status === 'done' && image.editedUrl && (
@@ -1456,7 +2437,18 @@ const App: React.FC = () => {
                         alt={`Edited ${image.original.name}`}
                         className="absolute inset-0 w-full h-full object-cover opacity-100 group-hover:opacity-0 transition-opacity"
                     />
-                    <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center gap-4 text-white opacity-0 group-hover:opacity-100 transition-opacity">
+                    {image.driftWarning && (
+                        <span
+                            className="absolute top-2 right-2 z-10 px-2 py-0.5 text-xs font-bold rounded-full bg-amber-400 text-amber-900"
+                            title={image.driftWarning}
+                        >
+                            Drifted
+                        </span>
+                    )}
+                    <div className="absolute inset-0 bg-black/70 p-2 flex flex-col items-center justify-center text-center gap-4 text-white opacity-0 group-hover:opacity-100 transition-opacity">
+                        {image.driftWarning && (
+                            <p className="text-xs text-amber-200 line-clamp-3" title={image.driftWarning}>{image.driftWarning}</p>
+                        )}
                         <button 
                             onClick={onDownload}
                             className="px-4 py-2 bg-blue-600 rounded-lg font-semibold hover:bg-blue-500"
@@ -1472,7 +2464,8 @@ const App: React.FC = () => {
                     <p className="text-xs line-clamp-3" title={image.error}>{image.error}</p>
                     <button 
                         onClick={onRetry}
-                        className="mt-2 px-3 py-1 bg-gray-200 text-gray-800 rounded-md text-sm font-semibold hover:bg-gray-300"
+                        disabled={isLoading}
+                        className="mt-2 px-3 py-1 bg-gray-200 text-gray-800 rounded-md text-sm font-semibold hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         Retry
                     </button>
@@ -1498,11 +2491,9 @@ const App: React.FC = () => {
                         onPromptChange={setAdjustmentPrompt}
                         isMasking={false} // Masking disabled in batch
                         onToggleMasking={() => {}}
-                        brushSize={0}
-                        onBrushSizeChange={() => {}}
-                        onClearMask={() => {}}
                         promptHistory={adjustHistory}
                         onClearHistory={clearAdjustHistory}
+                        onEnhancePrompt={(prompt, _useImage, signal) => enhancePrompt(prompt, 'adjust', null, { signal })}
                     />
                 );
             case 'filters':
@@ -1514,11 +2505,9 @@ const App: React.FC = () => {
                         onPromptChange={setFilterPrompt}
                         isMasking={false} // Masking disabled in batch
                         onToggleMasking={() => {}}
-                        brushSize={0}
-                        onBrushSizeChange={() => {}}
-                        onClearMask={() => {}}
                         promptHistory={filterHistory}
                         onClearHistory={clearFilterHistory}
+                        onEnhancePrompt={(prompt, _useImage, signal) => enhancePrompt(prompt, 'filter', null, { signal })}
                     />
                 );
             default:
@@ -1581,6 +2570,15 @@ const App: React.FC = () => {
             </div>
 
             {getPanelForTab()}
+
+            <RecipePanel
+                recipe={recipe}
+                onRecipeChange={handleRecipeChange}
+                onApply={handleBatchRecipe}
+                applyLabel={`Apply to All ${batchImages.length} Images`}
+                isRunning={isLoading}
+                disabled={isLoading}
+            />
             
             {error && (
                 <div 
@@ -1624,7 +2622,7 @@ const App: React.FC = () => {
             const isEditing = currentImage || batchImages.length > 0;
             return isEditing 
                 ? (batchImages.length > 0 ? renderBatchEditor() : renderSingleImageEditor())
-                : <StartScreen onFileSelect={handleFileSelect} />;
+                : <StartScreen onFileSelect={handleFileSelect} onResumeSession={handleResumeSession} onOpenProject={handleOpenProject} />;
     }
   };
 
@@ -1634,14 +2632,53 @@ const App: React.FC = () => {
         onShowShortcuts={() => setIsShortcutsModalOpen(true)}
         onShowFaq={() => setCurrentPage('faq')}
         onShowInspiration={() => setCurrentPage('inspiration')}
+        onShowUsage={() => setIsUsageModalOpen(true)}
+        onShowInspector={() => setIsDebugModalOpen(true)}
+        onShowSettings={() => setIsSettingsModalOpen(true)}
       />
       <main className="p-4 sm:p-8 flex-grow flex flex-col">
+        {!isApiKeyConfigured && getImageEditProvider().requiresApiKey && (
+          <div className="w-full max-w-5xl mx-auto mb-6 flex flex-col sm:flex-row items-center justify-between gap-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700/50 rounded-lg p-4" role="status">
+            <p className="text-sm text-amber-800 dark:text-amber-300">
+              <span className="font-semibold">No API key configured.</span> AI edits, filters and adjustments need your own Gemini API key.
+            </p>
+            <button
+              onClick={() => setIsSettingsModalOpen(true)}
+              className="px-4 py-2 text-sm font-semibold text-white bg-amber-600 rounded-md hover:bg-amber-500 whitespace-nowrap"
+            >
+              Add API Key
+            </button>
+          </div>
+        )}
         {renderPage()}
       </main>
       <ShortcutsModal 
         isOpen={isShortcutsModalOpen}
         onClose={() => setIsShortcutsModalOpen(false)}
       />
+      <UsageModal
+        isOpen={isUsageModalOpen}
+        onClose={() => setIsUsageModalOpen(false)}
+      />
+      <DebugModal
+        isOpen={isDebugModalOpen}
+        onClose={() => setIsDebugModalOpen(false)}
+      />
+      <SettingsModal
+        isOpen={isSettingsModalOpen}
+        onClose={() => setIsSettingsModalOpen(false)}
+      />
+      <AddProductModal
+        isOpen={isAddProductModalOpen}
+        onClose={() => setIsAddProductModalOpen(false)}
+        onAdded={(products) => setSelectedProduct(products[0] ?? null)}
+      />
+      <BranchCompareModal
+        entries={history}
+        leafIds={comparedBranches}
+        onClose={() => setComparedBranches(null)}
+        onSwitch={handleSwitchBranch}
+      />
     </div>
   );
 };
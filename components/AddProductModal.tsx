@@ -2,3 +2,170 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { addProducts } from '../services/productLibrary';
+import type { Product } from '../types';
+import { UploadIcon } from './icons';
+
+interface AddProductModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with the new products once they are saved to the library. */
+  onAdded: (products: Product[]) => void;
+}
+
+interface DraftProduct {
+  file: File;
+  name: string;
+  previewUrl: string;
+}
+
+const nameFromFile = (file: File) => file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ');
+
+const AddProductModal: React.FC<AddProductModalProps> = ({ isOpen, onClose, onAdded }) => {
+  const [drafts, setDrafts] = useState<DraftProduct[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isDraggingOver, setIsDraggingOver] = useState(false);
+
+  const draftsRef = useRef(drafts);
+  draftsRef.current = drafts;
+
+  const revokePreviews = () => draftsRef.current.forEach(draft => URL.revokeObjectURL(draft.previewUrl));
+  useEffect(() => revokePreviews, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    revokePreviews();
+    setDrafts([]);
+    setError(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleFiles = (files: FileList | null) => {
+    const images = Array.from(files ?? []).filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) return;
+    setError(null);
+    setDrafts(current => [...current, ...images.map(file => ({ file, name: nameFromFile(file), previewUrl: URL.createObjectURL(file) }))]);
+  };
+
+  const handleRemove = (draft: DraftProduct) => {
+    URL.revokeObjectURL(draft.previewUrl);
+    setDrafts(current => current.filter(item => item !== draft));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const products = await addProducts(drafts.map(({ file, name }) => ({ file, name })));
+      onAdded(products);
+      onClose();
+    } catch (err) {
+      console.error('Failed to add products to the library:', err);
+      setError('The products could not be saved in this browser. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="add-product-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()} // Prevent closing when clicking inside
+      >
+        <div className="sticky top-0 bg-white/80 dark:bg-gray-800/80 backdrop-blur-md p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+            <h2 id="add-product-title" className="text-xl font-bold text-gray-800 dark:text-gray-100">
+                Add Products
+            </h2>
+            <button
+                onClick={onClose}
+                className="p-1 rounded-full text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-600 dark:hover:text-gray-200"
+                aria-label="Close add products"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+                </svg>
+            </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+                Upload product photos, ideally cutouts on a transparent or plain background. They are kept in this browser's product library.
+            </p>
+
+            <label
+                htmlFor="product-upload"
+                className={`flex flex-col items-center justify-center gap-2 p-6 rounded-lg border-2 border-dashed cursor-pointer transition-colors ${isDraggingOver ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500'}`}
+                onDragOver={(e) => { e.preventDefault(); setIsDraggingOver(true); }}
+                onDragLeave={() => setIsDraggingOver(false)}
+                onDrop={(e) => {
+                    e.preventDefault();
+                    setIsDraggingOver(false);
+                    handleFiles(e.dataTransfer.files);
+                }}
+            >
+                <UploadIcon className="w-6 h-6 text-gray-500 dark:text-gray-400" />
+                <span className="text-sm font-semibold text-gray-600 dark:text-gray-300">Choose images or drop them here</span>
+            </label>
+            <input
+                id="product-upload"
+                type="file"
+                className="hidden"
+                accept="image/*"
+                multiple
+                onChange={(e) => {
+                    handleFiles(e.target.files);
+                    e.target.value = '';
+                }}
+            />
+
+            {drafts.length > 0 && (
+                <ul className="flex flex-col gap-2">
+                    {drafts.map((draft, index) => (
+                        <li key={draft.previewUrl} className="flex items-center gap-3 p-2 rounded-lg bg-gray-100 dark:bg-gray-700/50">
+                            <img src={draft.previewUrl} alt="" className="w-12 h-12 object-contain rounded-md bg-white dark:bg-gray-800" />
+                            <input
+                                type="text"
+                                value={draft.name}
+                                onChange={(e) => setDrafts(current => current.map((item, i) => i === index ? { ...item, name: e.target.value } : item))}
+                                aria-label="Product name"
+                                className="flex-grow bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 rounded-md p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                            />
+                            <button
+                                onClick={() => handleRemove(draft)}
+                                className="px-2 py-1 text-sm font-semibold text-red-600 dark:text-red-400 rounded-md hover:bg-red-100 dark:hover:bg-red-900/30"
+                            >
+                                Remove
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex items-center justify-between gap-3">
+                <p className="text-sm text-red-600 dark:text-red-400" role="status">{error}</p>
+                <button
+                    onClick={handleSave}
+                    disabled={drafts.length === 0 || isSaving}
+                    className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-500 disabled:bg-blue-300 disabled:cursor-not-allowed whitespace-nowrap"
+                >
+                    {isSaving ? 'Saving…' : drafts.length === 0 ? 'Add Products' : `Add ${drafts.length} ${drafts.length === 1 ? 'Product' : 'Products'}`}
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AddProductModal;
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import type { ImageOperation } from '../services/imageProvider';
+import {
+  getOperationSettings,
+  setGenerationSettings,
+  resetOperationSettings,
+  subscribeToGenerationSettings,
+  SUGGESTED_IMAGE_MODELS,
+  SAFETY_CATEGORIES,
+  SAFETY_THRESHOLDS,
+  DEFAULT_GENERATION_SETTINGS,
+  type GenerationSettings,
+  type SafetyCategory,
+  type SafetyThreshold,
+} from '../services/generationSettings';
+
+const OPERATION_LABELS: Record<ImageOperation, string> = {
+  edit: 'Edit',
+  filter: 'Filter',
+  adjust: 'Adjust',
+  uncrop: 'Uncrop',
+  place: 'Products',
+};
+
+const SAFETY_LABELS: Record<SafetyCategory, string> = {
+  harassment: 'Harassment',
+  hateSpeech: 'Hate speech',
+  sexuallyExplicit: 'Sexually explicit',
+  dangerousContent: 'Dangerous content',
+};
+
+const THRESHOLD_LABELS: Record<SafetyThreshold, string> = {
+  default: 'Model default',
+  BLOCK_NONE: 'Block none',
+  BLOCK_ONLY_HIGH: 'Block only high',
+  BLOCK_MEDIUM_AND_ABOVE: 'Block medium and above',
+  BLOCK_LOW_AND_ABOVE: 'Block low and above',
+};
+
+const inputClass = 'bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 rounded-md p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50';
+
+const AdvancedSettingsPanel: React.FC = () => {
+  const [operation, setOperation] = useState<ImageOperation>('edit');
+  const [allSettings, setAllSettings] = useState(getOperationSettings);
+
+  useEffect(() => subscribeToGenerationSettings(() => setAllSettings(getOperationSettings())), []);
+
+  const settings = allSettings[operation];
+
+  // The model id is committed on blur so clearing the field to type another id does not snap back to the default
+  const [modelDraft, setModelDraft] = useState(settings.model);
+  useEffect(() => setModelDraft(settings.model), [settings.model]);
+
+  const update = (changes: Partial<GenerationSettings>) => {
+    setGenerationSettings(operation, { ...settings, ...changes });
+  };
+
+  const handleSeedChange = (value: string) => {
+    const seed = parseInt(value, 10);
+    update({ seed: Number.isFinite(seed) ? seed : null });
+  };
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="font-semibold text-gray-600 dark:text-gray-400">Generation Settings</h3>
+        <button
+          onClick={resetOperationSettings}
+          className="px-3 py-1.5 text-sm font-semibold text-gray-600 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700"
+        >
+          Reset to defaults
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+        Each operation has its own model and sampling settings. They are saved with every result, so a good result can be reproduced later.
+      </p>
+
+      <div className="flex gap-1 p-1 mb-4 rounded-lg bg-gray-100 dark:bg-gray-700/50" role="tablist">
+        {(Object.keys(OPERATION_LABELS) as ImageOperation[]).map(op => (
+          <button
+            key={op}
+            role="tab"
+            aria-selected={operation === op}
+            onClick={() => setOperation(op)}
+            className={`flex-1 px-3 py-1.5 text-sm font-semibold rounded-md ${operation === op ? 'bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+          >
+            {OPERATION_LABELS[op]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-4">
+        <label className="flex flex-col gap-1 text-sm font-medium text-gray-600 dark:text-gray-400">
+          Model
+          <input
+            type="text"
+            list="suggested-image-models"
+            value={modelDraft}
+            onChange={(e) => setModelDraft(e.target.value)}
+            onBlur={() => {
+              update({ model: modelDraft });
+              setModelDraft(modelDraft.trim() || DEFAULT_GENERATION_SETTINGS.model);
+            }}
+            placeholder={DEFAULT_GENERATION_SETTINGS.model}
+            spellCheck={false}
+            className={`${inputClass} font-mono`}
+          />
+          <datalist id="suggested-image-models">
+            {SUGGESTED_IMAGE_MODELS.map(model => <option key={model} value={model} />)}
+          </datalist>
+        </label>
+
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center justify-between text-sm font-medium text-gray-600 dark:text-gray-400">
+            <span>Temperature</span>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.temperature === null}
+                onChange={(e) => update({ temperature: e.target.checked ? null : 1 })}
+                className="w-4 h-4 cursor-pointer"
+              />
+              Model default
+            </label>
+          </div>
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              min="0"
+              max="2"
+              step="0.05"
+              value={settings.temperature ?? 1}
+              onChange={(e) => update({ temperature: Number(e.target.value) })}
+              disabled={settings.temperature === null}
+              className="flex-grow cursor-pointer disabled:cursor-not-allowed"
+              aria-label="Temperature"
+            />
+            <span className="text-sm text-gray-500 dark:text-gray-400 tabular-nums w-10 text-right">
+              {settings.temperature === null ? '–' : settings.temperature.toFixed(2)}
+            </span>
+          </div>
+        </div>
+
+        <label className="flex flex-col gap-1 text-sm font-medium text-gray-600 dark:text-gray-400">
+          Seed
+          <input
+            type="number"
+            step="1"
+            value={settings.seed ?? ''}
+            onChange={(e) => handleSeedChange(e.target.value)}
+            placeholder="Random"
+            className={`${inputClass} font-mono`}
+          />
+        </label>
+
+        <div>
+          <p className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-2">Safety thresholds</p>
+          <div className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-2">
+            {SAFETY_CATEGORIES.map(category => (
+              <React.Fragment key={category}>
+                <label htmlFor={`safety-${category}`} className="text-sm text-gray-700 dark:text-gray-300">{SAFETY_LABELS[category]}</label>
+                <select
+                  id={`safety-${category}`}
+                  value={settings.safety[category]}
+                  onChange={(e) => update({ safety: { ...settings.safety, [category]: e.target.value as SafetyThreshold } })}
+                  className={inputClass}
+                >
+                  {SAFETY_THRESHOLDS.map(threshold => (
+                    <option key={threshold} value={threshold}>{THRESHOLD_LABELS[threshold]}</option>
+                  ))}
+                </select>
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default AdvancedSettingsPanel;
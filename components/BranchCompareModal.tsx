@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo } from 'react';
+import type { HistoryEntry } from '../types';
+import { getHistoryPath, getSharedPathLength, describeHistoryEntry } from '../services/history';
+
+interface BranchCompareModalProps {
+  entries: HistoryEntry[];
+  /** The ends of the two branches to compare, or null when closed. */
+  leafIds: [string, string] | null;
+  onClose: () => void;
+  onSwitch: (leafId: string) => void;
+}
+
+const BranchCompareModal: React.FC<BranchCompareModalProps> = ({ entries, leafIds, onClose, onSwitch }) => {
+  // A leaf that is no longer in the history (e.g. after a new upload) leaves nothing to compare
+  const branches = useMemo(() => {
+    const paths = leafIds ? leafIds.map(id => getHistoryPath(entries, id)) : [];
+    return paths.some(path => path.length === 0) ? [] : paths;
+  }, [entries, leafIds]);
+  const sharedLength = branches.length === 2 ? getSharedPathLength(branches[0], branches[1]) : 0;
+
+  const imageUrls = useMemo(() => branches.map(path => URL.createObjectURL(path[path.length - 1].file)), [branches]);
+  useEffect(() => () => imageUrls.forEach(url => URL.revokeObjectURL(url)), [imageUrls]);
+
+  if (branches.length !== 2) return null;
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="branch-compare-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()} // Prevent closing when clicking inside
+      >
+        <div className="sticky top-0 bg-white/80 dark:bg-gray-800/80 backdrop-blur-md p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+            <h2 id="branch-compare-title" className="text-xl font-bold text-gray-800 dark:text-gray-100">
+                Compare Branches
+            </h2>
+            <button
+                onClick={onClose}
+                className="p-1 rounded-full text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-600 dark:hover:text-gray-200"
+                aria-label="Close branch comparison"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+                </svg>
+            </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+                Both branches share the first {sharedLength} {sharedLength === 1 ? 'step' : 'steps'}. The steps listed below are where they differ.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {branches.map((path, index) => (
+                    <div key={path[path.length - 1].id} className="flex flex-col gap-3">
+                        <div className="w-full aspect-square bg-gray-200 dark:bg-gray-900 rounded-lg flex items-center justify-center overflow-hidden">
+                            <img src={imageUrls[index]} alt={`Result of branch ${index + 1}`} className="max-w-full max-h-full object-contain" />
+                        </div>
+                        <ol className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300" start={sharedLength + 1}>
+                            {path.slice(sharedLength).map(entry => (
+                                <li key={entry.id} className="list-decimal ml-5">{describeHistoryEntry(entry)}</li>
+                            ))}
+                        </ol>
+                        <button
+                            onClick={() => onSwitch(path[path.length - 1].id)}
+                            className="self-start px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-500"
+                        >
+                            Continue from this branch
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BranchCompareModal;
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo } from 'react';
+import type { HistoryEntry } from '../types';
+import { getHistoryLeaves, getHistoryPath, getSharedPathLength, describeHistoryEntry } from '../services/history';
+
+interface BranchNavigatorProps {
+  entries: HistoryEntry[];
+  /** The end of the branch being viewed. */
+  tipId: string | null;
+  onSwitch: (leafId: string) => void;
+  onCompare: (leafIds: [string, string]) => void;
+  disabled?: boolean;
+}
+
+const BranchNavigator: React.FC<BranchNavigatorProps> = ({ entries, tipId, onSwitch, onCompare, disabled }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const leaves = useMemo(() => getHistoryLeaves(entries), [entries]);
+  const activePath = useMemo(() => getHistoryPath(entries, tipId), [entries, tipId]);
+
+  // Forget picks for branches that no longer exist, e.g. after a new upload
+  useEffect(() => {
+    setCompareIds(current => current.filter(id => leaves.some(leaf => leaf.id === id)));
+  }, [leaves]);
+
+  if (leaves.length < 2) return null;
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(current => current.includes(id)
+      ? current.filter(item => item !== id)
+      // Keep the two most recent picks
+      : [...current, id].slice(-2));
+  };
+
+  return (
+    <div className="w-full bg-gray-100 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-700 rounded-lg p-4 flex flex-col gap-3">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">Branches</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Every direction you tried is kept. Switch to a branch, or tick two to compare their results.</p>
+        </div>
+        <button
+          onClick={() => onCompare([compareIds[0], compareIds[1]])}
+          disabled={disabled || compareIds.length !== 2}
+          className="px-4 py-2 text-sm font-semibold text-blue-600 bg-blue-100 dark:bg-blue-900/50 dark:text-blue-300 rounded-full hover:bg-blue-200 dark:hover:bg-blue-900 disabled:opacity-50"
+        >
+          Compare {compareIds.length}/2
+        </button>
+      </div>
+      <ul className="flex items-stretch gap-3 overflow-x-auto pb-1">
+        {leaves.map(leaf => {
+          const path = getHistoryPath(entries, leaf.id);
+          const isActive = leaf.id === tipId;
+          const forkStep = getSharedPathLength(path, activePath);
+          return (
+            <li key={leaf.id} className="relative flex-shrink-0">
+              <button
+                onClick={() => onSwitch(leaf.id)}
+                disabled={disabled}
+                title={describeHistoryEntry(leaf)}
+                className={`w-32 flex flex-col rounded-lg overflow-hidden border-2 bg-white dark:bg-gray-700 transition-all duration-200 disabled:cursor-not-allowed ${isActive ? 'border-blue-500 shadow-lg shadow-blue-500/30' : 'border-transparent hover:border-gray-400 dark:hover:border-gray-500'}`}
+              >
+                <div className="w-full h-20 bg-gray-200 dark:bg-gray-800 flex items-center justify-center">
+                  {leaf.thumbnailUrl && <img src={leaf.thumbnailUrl} alt="" className="max-w-full max-h-full object-contain" />}
+                </div>
+                <div className="px-2 py-1.5 text-left">
+                  <p className="text-sm font-semibold text-gray-800 dark:text-gray-100 truncate">{describeHistoryEntry(leaf)}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {path.length} steps{isActive ? ' · viewing' : ` · splits after step ${forkStep}`}
+                  </p>
+                </div>
+              </button>
+              <input
+                type="checkbox"
+                checked={compareIds.includes(leaf.id)}
+                onChange={() => toggleCompare(leaf.id)}
+                disabled={disabled}
+                aria-label={`Compare ${describeHistoryEntry(leaf)}`}
+                className="absolute top-1.5 left-1.5 w-4 h-4 rounded cursor-pointer"
+              />
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default BranchNavigator;
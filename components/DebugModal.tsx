@@ -2,3 +2,195 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React, { useState, useEffect } from 'react';
+import { describeGenerationSettings } from '../services/generationSettings';
+import { getRequestLog, clearRequestLog, exportRequestLog, subscribeToRequestLog, type RequestLogEntry, type RequestStatus } from '../services/requestLog';
+
+interface DebugModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<RequestStatus, string> = {
+  pending: 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300',
+  success: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300',
+  cached: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300',
+  cancelled: 'bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300',
+};
+
+const formatBytes = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const formatDuration = (entry: RequestLogEntry) => entry.durationMs === null ? 'running…' : `${(entry.durationMs / 1000).toFixed(2)}s`;
+
+const Field: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <>
+    <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+    <dd className="text-gray-800 dark:text-gray-200 break-words">{value ?? '–'}</dd>
+  </>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div>
+    <h4 className="font-semibold text-gray-600 dark:text-gray-400 mb-2">{title}</h4>
+    {children}
+  </div>
+);
+
+const preClass = 'text-xs bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded-md p-3 whitespace-pre-wrap break-words max-h-64 overflow-y-auto';
+
+const EntryDetails: React.FC<{ entry: RequestLogEntry }> = ({ entry }) => (
+  <div className="flex flex-col gap-5">
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+      <Field label="Operation" value={`${entry.operation}${entry.variant > 0 ? ` (variant ${entry.variant + 1})` : ''}`} />
+      <Field label="Provider / model" value={`${entry.provider} / ${entry.model}`} />
+      {entry.settings && <Field label="Settings" value={describeGenerationSettings(entry.settings)} />}
+      <Field label="Started" value={new Date(entry.startedAt).toLocaleTimeString()} />
+      <Field label="Duration" value={formatDuration(entry)} />
+      <Field label="Status" value={entry.status} />
+      <Field label="Finish reason" value={entry.response?.finishReason} />
+      <Field label="Block reason" value={entry.response?.blockReason} />
+      {entry.selection && (
+        <Field label="Selection" value={`x ${entry.selection.x}, y ${entry.selection.y}, ${entry.selection.width}×${entry.selection.height}px`} />
+      )}
+      {entry.error && <Field label="Error" value={<span className="text-red-600 dark:text-red-400">{entry.error}</span>} />}
+    </dl>
+
+    <Section title="Image parts sent">
+      {entry.inputs.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Preparing thumbnails…</p>
+      ) : (
+        <div className="flex flex-wrap gap-3">
+          {entry.inputs.map(input => (
+            <figure key={input.label} className="flex flex-col items-center gap-1">
+              {input.thumbnailUrl
+                ? <img src={input.thumbnailUrl} alt={`${input.label} part`} className="h-28 rounded-md border border-gray-300 dark:border-gray-600" />
+                : <div className="h-28 w-28 rounded-md bg-gray-200 dark:bg-gray-700" />}
+              <figcaption className="text-xs text-gray-500 dark:text-gray-400">
+                {input.label} · {input.width}×{input.height} · {formatBytes(input.bytes)}
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+    </Section>
+
+    <Section title="Prompt sent">
+      <pre className={preClass}>{entry.prompt}</pre>
+    </Section>
+
+    {entry.response?.text && (
+      <Section title="Text returned by the model">
+        <pre className={preClass}>{entry.response.text}</pre>
+      </Section>
+    )}
+
+    <Section title="Response metadata">
+      {entry.response?.metadata
+        ? <pre className={preClass}>{JSON.stringify(entry.response.metadata, null, 2)}</pre>
+        : <p className="text-sm text-gray-500 dark:text-gray-400">No response received.</p>}
+    </Section>
+  </div>
+);
+
+const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose }) => {
+  const [entries, setEntries] = useState<RequestLogEntry[]>(getRequestLog);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEntries(getRequestLog());
+    return subscribeToRequestLog(() => setEntries(getRequestLog()));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const selected = entries.find(entry => entry.id === selectedId) ?? entries[0] ?? null;
+
+  const handleExport = () => {
+    const blob = new Blob([exportRequestLog()], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `pixelshop-requests-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="debug-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-5xl h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()} // Prevent closing when clicking inside
+      >
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center gap-4">
+            <h2 id="debug-title" className="text-xl font-bold text-gray-800 dark:text-gray-100">
+                Request Inspector
+            </h2>
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={handleExport}
+                    disabled={entries.length === 0}
+                    className="px-3 py-1.5 text-sm font-semibold text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Export JSON
+                </button>
+                <button
+                    onClick={clearRequestLog}
+                    disabled={entries.length === 0}
+                    className="px-3 py-1.5 text-sm font-semibold text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Clear
+                </button>
+                <button
+                    onClick={onClose}
+                    className="p-1 rounded-full text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-600 dark:hover:text-gray-200"
+                    aria-label="Close request inspector"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+                    </svg>
+                </button>
+            </div>
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="flex-grow flex items-center justify-center p-6">
+            <p className="text-gray-500 dark:text-gray-400">No AI requests recorded yet. Requests made in this tab will appear here.</p>
+          </div>
+        ) : (
+          <div className="flex-grow flex min-h-0">
+            <ul className="w-64 flex-shrink-0 border-r border-gray-200 dark:border-gray-700 overflow-y-auto">
+              {entries.map(entry => (
+                <li key={entry.id}>
+                  <button
+                    onClick={() => setSelectedId(entry.id)}
+                    className={`w-full text-left px-4 py-3 border-b border-gray-200 dark:border-gray-700 ${selected?.id === entry.id ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-100 dark:hover:bg-gray-700/50'}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-semibold text-gray-800 dark:text-gray-100 capitalize">{entry.operation}</span>
+                      <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-300 truncate" title={entry.userPrompt}>{entry.userPrompt}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{new Date(entry.startedAt).toLocaleTimeString()} · {formatDuration(entry)}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex-grow overflow-y-auto p-6">
+              {selected && <EntryDetails entry={selected} />}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DebugModal;
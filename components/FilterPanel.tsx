@@ -4,8 +4,10 @@
 */
 
 import React, { useState } from 'react';
-import PromptSuggestions from './PromptSuggestions';
+import PromptSuggestions, { type SuggestionSource } from './PromptSuggestions';
 import PromptHistoryDropdown from './PromptHistoryDropdown';
+import PromptEnhancer from './PromptEnhancer';
+import MaskToolbar, { type MaskToolbarProps } from './MaskToolbar';
 import { filterSuggestions } from '../data/suggestions';
 
 interface FilterPanelProps {
@@ -15,11 +17,17 @@ interface FilterPanelProps {
   onPromptChange: (prompt: string) => void;
   isMasking: boolean;
   onToggleMasking: () => void;
-  brushSize: number;
-  onBrushSizeChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  onClearMask: () => void;
+  /** The mask tools shown while masking; masking is unavailable when omitted. */
+  maskToolbar?: MaskToolbarProps;
   promptHistory: string[];
   onClearHistory: () => void;
+  /** Suggestions for the current photo; the static list when omitted. */
+  suggestions?: string[];
+  suggestionSource?: SuggestionSource;
+  suggestionDescription?: string;
+  /** Rewrites the prompt into a detailed one; the enhancer is hidden when omitted. */
+  onEnhancePrompt?: (prompt: string, useImage: boolean, signal: AbortSignal) => Promise<string>;
+  canEnhanceWithImage?: boolean;
 }
 
 const FilterPanel: React.FC<FilterPanelProps> = ({ 
@@ -29,11 +37,14 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
   onPromptChange,
   isMasking,
   onToggleMasking,
-  brushSize,
-  onBrushSizeChange,
-  onClearMask,
+  maskToolbar,
   promptHistory,
-  onClearHistory
+  onClearHistory,
+  suggestions = filterSuggestions,
+  suggestionSource,
+  suggestionDescription,
+  onEnhancePrompt,
+  canEnhanceWithImage = false
 }) => {
   const [isHistoryVisible, setIsHistoryVisible] = useState(false);
 
@@ -78,16 +89,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
             </div>
         </div>
 
-      {isMasking && (
-         <div className="p-3 bg-blue-500/10 rounded-lg flex flex-col sm:flex-row items-center gap-4 animate-fade-in">
-            <p className="text-sm text-blue-800 dark:text-blue-300 font-medium flex-shrink-0">Draw on the image to select an area.</p>
-            <div className="flex items-center gap-2">
-                <label htmlFor="brush-size" className="text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">Brush Size:</label>
-                <input id="brush-size" type="range" min="10" max="100" step="1" value={brushSize} onChange={onBrushSizeChange} className="w-24 cursor-pointer" />
-            </div>
-            <button onClick={onClearMask} className="text-sm text-blue-600 dark:text-blue-400 hover:underline font-semibold ml-auto flex-shrink-0">Clear Mask</button>
-         </div>
-      )}
+      {isMasking && maskToolbar && <MaskToolbar {...maskToolbar} />}
       
       <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
         {presets.map(preset => (
@@ -124,10 +126,22 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
         />
       </div>
       
+      {onEnhancePrompt && (
+        <PromptEnhancer
+          prompt={activePrompt}
+          onEnhance={onEnhancePrompt}
+          onAccept={onPromptChange}
+          canUseImage={canEnhanceWithImage}
+          disabled={isLoading}
+        />
+      )}
+
       <PromptSuggestions 
-        suggestions={filterSuggestions} 
+        suggestions={suggestions} 
         onSelect={(prompt) => onPromptChange(prompt)}
         isLoading={isLoading}
+        source={suggestionSource}
+        description={suggestionDescription}
       />
 
       {activePrompt && (
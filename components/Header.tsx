@@ -3,15 +3,18 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useEffect } from 'react';
-import { SparkleIcon, QuestionMarkCircleIcon, LightbulbIcon, SunIcon, MoonIcon } from './icons';
+import { SparkleIcon, QuestionMarkCircleIcon, LightbulbIcon, SunIcon, MoonIcon, ChartBarIcon, CodeBracketIcon, CogIcon } from './icons';
 
 interface HeaderProps {
     onShowShortcuts: () => void;
     onShowFaq: () => void;
     onShowInspiration: () => void;
+    onShowUsage: () => void;
+    onShowInspector: () => void;
+    onShowSettings: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onShowShortcuts, onShowFaq, onShowInspiration }) => {
+const Header: React.FC<HeaderProps> = ({ onShowShortcuts, onShowFaq, onShowInspiration, onShowUsage, onShowInspector, onShowSettings }) => {
   const [theme, setTheme] = useState(() => {
     if (typeof window !== 'undefined') {
       return localStorage.getItem('pixelshop-theme') ?? 'light';
@@ -60,6 +63,22 @@ const Header: React.FC<HeaderProps> = ({ onShowShortcuts, onShowFaq, onShowInspi
               >
                   FAQ
               </button>
+              <button
+                  onClick={onShowUsage}
+                  title="View usage and budget"
+                  aria-label="View usage and budget"
+                  className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 hover:text-gray-700 dark:hover:text-gray-200"
+              >
+                  <ChartBarIcon className="w-6 h-6" />
+              </button>
+              <button
+                  onClick={onShowInspector}
+                  title="Open request inspector"
+                  aria-label="Open request inspector"
+                  className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 hover:text-gray-700 dark:hover:text-gray-200"
+              >
+                  <CodeBracketIcon className="w-6 h-6" />
+              </button>
               <button
                   onClick={onShowShortcuts}
                   title="View keyboard shortcuts"
@@ -68,6 +87,14 @@ const Header: React.FC<HeaderProps> = ({ onShowShortcuts, onShowFaq, onShowInspi
               >
                   <QuestionMarkCircleIcon className="w-6 h-6" />
               </button>
+              <button
+                  onClick={onShowSettings}
+                  title="Settings"
+                  aria-label="Settings"
+                  className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 hover:text-gray-700 dark:hover:text-gray-200"
+              >
+                  <CogIcon className="w-6 h-6" />
+              </button>
               <button
                   onClick={toggleTheme}
                   title="Toggle theme"
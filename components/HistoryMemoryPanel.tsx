@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import {
+  getHistoryMemoryLimits,
+  setHistoryMemoryLimits,
+  subscribeToHistoryMemoryLimits,
+  DEFAULT_HISTORY_MEMORY_LIMITS,
+} from '../services/historyMemory';
+
+const inputClass = 'w-24 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 rounded-md p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const HistoryMemoryPanel: React.FC = () => {
+  const [limits, setLimits] = useState(getHistoryMemoryLimits);
+
+  useEffect(() => subscribeToHistoryMemoryLimits(() => setLimits(getHistoryMemoryLimits())), []);
+
+  const handleChange = (key: keyof typeof limits, value: string) => {
+    const number = parseFloat(value);
+    if (Number.isFinite(number)) {
+      setHistoryMemoryLimits({ ...limits, [key]: number });
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="font-semibold text-gray-600 dark:text-gray-400">History Memory</h3>
+        <button
+          onClick={() => setHistoryMemoryLimits(DEFAULT_HISTORY_MEMORY_LIMITS)}
+          className="px-3 py-1.5 text-sm font-semibold text-gray-600 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700"
+        >
+          Reset to defaults
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+        Full-size images of history steps away from the current one are moved out of memory into browser storage. Images count at their decoded size, about 4 bytes per pixel (some 200 MB for a 50 MP photo). Lower these if long sessions with large photos make the tab slow.
+      </p>
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-300">
+          Steps kept around the current one
+          <input
+            type="number"
+            min="0"
+            max="20"
+            step="1"
+            value={limits.stepsAroundCurrent}
+            onChange={(e) => handleChange('stepsAroundCurrent', e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-300">
+          Memory limit (MB)
+          <input
+            type="number"
+            min="1"
+            step="32"
+            value={limits.maxMemoryMB}
+            onChange={(e) => handleChange('maxMemoryMB', e.target.value)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+    </section>
+  );
+};
+
+export default HistoryMemoryPanel;
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import type { HistoryEntry } from '../types';
+import { HISTORY_OPERATION_LABELS, describeHistoryEntry } from '../services/history';
+import { describeGenerationSettings } from '../services/generationSettings';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  currentIndex: number;
+  onSelect: (index: number) => void;
+  /** Makes the current step's settings the saved settings for its operation. */
+  onReuseSettings: () => void;
+  disabled?: boolean;
+}
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, currentIndex, onSelect, onReuseSettings, disabled }) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const current = entries[currentIndex];
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [currentIndex]);
+
+  if (!current) return null;
+
+  return (
+    <div className="w-full bg-gray-100 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-700 rounded-lg p-4 flex flex-col gap-3">
+      <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">History</h3>
+      <ol className="flex items-stretch gap-3 overflow-x-auto pb-1">
+        {entries.map((entry, index) => (
+          <li key={entry.id} className="flex-shrink-0">
+            <button
+              ref={index === currentIndex ? activeRef : undefined}
+              onClick={() => onSelect(index)}
+              disabled={disabled}
+              title={describeHistoryEntry(entry)}
+              aria-current={index === currentIndex ? 'step' : undefined}
+              className={`w-28 flex flex-col rounded-lg overflow-hidden border-2 bg-white dark:bg-gray-700 transition-all duration-200 disabled:cursor-not-allowed ${index === currentIndex ? 'border-blue-500 shadow-lg shadow-blue-500/30' : 'border-transparent hover:border-gray-400 dark:hover:border-gray-500'} ${index > currentIndex ? 'opacity-60' : ''}`}
+            >
+              <div className="w-full h-20 bg-gray-200 dark:bg-gray-800 flex items-center justify-center">
+                {entry.thumbnailUrl && <img src={entry.thumbnailUrl} alt="" className="max-w-full max-h-full object-contain" />}
+              </div>
+              <div className="px-2 py-1.5 text-left">
+                <p className="text-xs text-gray-500 dark:text-gray-400">Step {index + 1}</p>
+                <p className="text-sm font-semibold text-gray-800 dark:text-gray-100 truncate">{HISTORY_OPERATION_LABELS[entry.operation]}</p>
+                {entry.prompt && <p className="text-xs text-gray-600 dark:text-gray-300 truncate">{entry.prompt}</p>}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-500 dark:text-gray-400">
+        <span className="font-medium text-gray-700 dark:text-gray-200">{describeHistoryEntry(current)}</span>
+        {current.selection && <span>{Math.round(current.selection.width)}×{Math.round(current.selection.height)}px selection</span>}
+        {current.mask && <span>masked</span>}
+        {current.generation && <span className="font-mono">{describeGenerationSettings({ ...current.generation.settings, model: current.model ?? current.generation.settings.model })}</span>}
+        {current.durationMs !== null && <span>{formatDuration(current.durationMs)}</span>}
+        <span>{new Date(current.createdAt).toLocaleTimeString()}</span>
+        {current.generation && (
+          <button
+            onClick={onReuseSettings}
+            disabled={disabled}
+            title={`Make these the saved ${current.generation.operation} settings`}
+            className="font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+          >
+            Reuse settings
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
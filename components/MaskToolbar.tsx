@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { MAX_MASK_FEATHER, type MaskTool, type MaskOverlay } from '../services/maskTools';
+
+export interface MaskToolbarProps {
+  tool: MaskTool;
+  onToolChange: (tool: MaskTool) => void;
+  /** Brush and eraser width in screen pixels. */
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  /** Softening of the mask's edges, in image display pixels. */
+  featherRadius: number;
+  onFeatherRadiusChange: (radius: number) => void;
+  overlay: MaskOverlay;
+  onOverlayChange: (overlay: MaskOverlay) => void;
+  onInvert: () => void;
+  onUndo: () => void;
+  canUndo: boolean;
+  onClear: () => void;
+}
+
+const TOOLS: { tool: MaskTool; label: string; hint: string }[] = [
+  { tool: 'brush', label: 'Brush', hint: 'Draw on the image to add to the mask.' },
+  { tool: 'eraser', label: 'Eraser', hint: 'Draw on the image to remove from the mask.' },
+  { tool: 'rectangle', label: 'Rectangle', hint: 'Drag to add a rectangle. Hold Alt to remove it instead.' },
+  { tool: 'ellipse', label: 'Ellipse', hint: 'Drag to add an ellipse. Hold Alt to remove it instead.' },
+  { tool: 'lasso', label: 'Lasso', hint: 'Click to place points; click the first point or double-click to close. Hold Alt to remove. Esc cancels.' },
+  { tool: 'fill', label: 'Fill', hint: 'Click inside an outline to fill it. Hold Alt to clear an area instead.' },
+];
+
+const MaskToolbar: React.FC<MaskToolbarProps> = ({
+  tool,
+  onToolChange,
+  brushSize,
+  onBrushSizeChange,
+  featherRadius,
+  onFeatherRadiusChange,
+  overlay,
+  onOverlayChange,
+  onInvert,
+  onUndo,
+  canUndo,
+  onClear
+}) => {
+  const hint = TOOLS.find(item => item.tool === tool)?.hint;
+
+  return (
+    <div className="p-3 bg-blue-500/10 rounded-lg flex flex-col gap-3 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-2" role="radiogroup" aria-label="Mask tool">
+        {TOOLS.map(item => (
+          <button
+            key={item.tool}
+            onClick={() => onToolChange(item.tool)}
+            role="radio"
+            aria-checked={tool === item.tool}
+            className={`px-3 py-1 rounded-full text-sm font-semibold transition-colors ${
+              tool === item.tool
+                ? 'bg-blue-600 text-white'
+                : 'bg-white/70 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-white dark:hover:bg-gray-600'
+            }`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-sm text-blue-800 dark:text-blue-300 font-medium">{hint}</p>
+
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+        {(tool === 'brush' || tool === 'eraser') && (
+          <div className="flex items-center gap-2">
+            <label htmlFor="brush-size" className="text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">Brush Size:</label>
+            <input id="brush-size" type="range" min="2" max="100" step="1" value={brushSize} onChange={(e) => onBrushSizeChange(Number(e.target.value))} className="w-24 cursor-pointer" />
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <label htmlFor="mask-feather" className="text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">Feather:</label>
+          <input id="mask-feather" type="range" min="0" max={MAX_MASK_FEATHER} step="1" value={featherRadius} onChange={(e) => onFeatherRadiusChange(Number(e.target.value))} className="w-24 cursor-pointer" />
+          <span className="text-sm text-gray-500 dark:text-gray-400 tabular-nums w-10">{featherRadius}px</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <label htmlFor="mask-color" className="text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">Overlay:</label>
+          <input id="mask-color" type="color" value={overlay.color} onChange={(e) => onOverlayChange({ ...overlay, color: e.target.value })} className="w-8 h-8 rounded cursor-pointer bg-transparent" />
+          <input
+            type="range"
+            min="0.1"
+            max="1"
+            step="0.05"
+            value={overlay.opacity}
+            onChange={(e) => onOverlayChange({ ...overlay, opacity: Number(e.target.value) })}
+            aria-label="Overlay opacity"
+            className="w-20 cursor-pointer"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4 text-sm font-semibold">
+        <button onClick={onUndo} disabled={!canUndo} className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline">Undo Stroke</button>
+        <button onClick={onInvert} className="text-blue-600 dark:text-blue-400 hover:underline">Invert</button>
+        <button onClick={onClear} className="text-blue-600 dark:text-blue-400 hover:underline ml-auto">Clear Mask</button>
+      </div>
+    </div>
+  );
+};
+
+export default MaskToolbar;
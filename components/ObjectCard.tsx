@@ -2,3 +2,41 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React from 'react';
+import type { DetectedObject } from '../types';
+
+interface ObjectCardProps {
+  object: DetectedObject;
+  isActive: boolean;
+  /** What clicking does on the current tab, e.g. "Select" or "Add to mask". */
+  actionLabel: string;
+  onClick: (object: DetectedObject) => void;
+  onHover: (object: DetectedObject | null) => void;
+  disabled?: boolean;
+}
+
+const ObjectCard: React.FC<ObjectCardProps> = ({ object, isActive, actionLabel, onClick, onHover, disabled }) => (
+  <button
+    onClick={() => onClick(object)}
+    onMouseEnter={() => onHover(object)}
+    onMouseLeave={() => onHover(null)}
+    onFocus={() => onHover(object)}
+    onBlur={() => onHover(null)}
+    disabled={disabled}
+    title={`${actionLabel}: ${object.label}`}
+    className={`flex-shrink-0 w-28 flex flex-col rounded-lg overflow-hidden border-2 bg-white dark:bg-gray-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${isActive ? 'border-blue-500 shadow-lg shadow-blue-500/30' : 'border-transparent hover:border-gray-400 dark:hover:border-gray-500'}`}
+  >
+    <div className="w-full h-20 bg-gray-200 dark:bg-gray-800 flex items-center justify-center">
+      <img src={object.thumbnailUrl} alt={object.label} className="max-w-full max-h-full object-contain" />
+    </div>
+    <div className="px-2 py-1.5 text-left">
+      <p className="text-sm font-semibold text-gray-800 dark:text-gray-100 truncate">{object.label}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {object.box.width}×{object.box.height}px{object.maskUrl ? ' · mask' : ''}
+      </p>
+    </div>
+  </button>
+);
+
+export default ObjectCard;
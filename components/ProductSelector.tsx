@@ -2,3 +2,95 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { listProducts, deleteProduct, subscribeToProducts } from '../services/productLibrary';
+import type { Product } from '../types';
+import { PlusIcon } from './icons';
+
+interface ProductSelectorProps {
+  selectedId: string | null;
+  onSelect: (product: Product | null) => void;
+  onAddProducts: () => void;
+  disabled?: boolean;
+}
+
+const ProductSelector: React.FC<ProductSelectorProps> = ({ selectedId, onSelect, onAddProducts, disabled }) => {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () => listProducts()
+      .then(list => {
+        setProducts(list);
+        setLoadError(null);
+      })
+      .catch(err => {
+        console.error('Failed to load the product library:', err);
+        setLoadError('The product library could not be opened in this browser.');
+      });
+    load();
+    return subscribeToProducts(load);
+  }, []);
+
+  const thumbnailUrls = useMemo(() => new Map(products.map(product => [product.id, URL.createObjectURL(product.file)])), [products]);
+  useEffect(() => () => thumbnailUrls.forEach(url => URL.revokeObjectURL(url)), [thumbnailUrls]);
+
+  const handleDelete = async (product: Product) => {
+    if (!window.confirm(`Remove "${product.name}" from the product library?`)) return;
+    if (product.id === selectedId) onSelect(null);
+    try {
+      await deleteProduct(product.id);
+    } catch (err) {
+      console.error('Failed to delete the product:', err);
+    }
+  };
+
+  if (loadError) {
+    return <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>;
+  }
+
+  return (
+    <div className="w-full flex items-stretch gap-3 overflow-x-auto pb-1">
+      <button
+        onClick={onAddProducts}
+        disabled={disabled}
+        className="flex-shrink-0 w-28 h-32 flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400 hover:border-gray-400 dark:hover:border-gray-500 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-50"
+      >
+        <PlusIcon className="w-6 h-6" />
+        <span className="text-sm font-semibold">Add Products</span>
+      </button>
+      {products.map(product => (
+        <div key={product.id} className="relative flex-shrink-0 group">
+          <button
+            onClick={() => onSelect(product.id === selectedId ? null : product)}
+            disabled={disabled}
+            title={product.name}
+            className={`w-28 h-32 flex flex-col rounded-lg overflow-hidden border-2 bg-white dark:bg-gray-700 transition-all duration-200 disabled:opacity-50 ${product.id === selectedId ? 'border-blue-500 shadow-lg shadow-blue-500/30' : 'border-transparent hover:border-gray-400 dark:hover:border-gray-500'}`}
+          >
+            <div className="w-full h-24 bg-gray-200 dark:bg-gray-800 flex items-center justify-center">
+              <img src={thumbnailUrls.get(product.id)} alt={product.name} className="max-w-full max-h-full object-contain" />
+            </div>
+            <p className="w-full px-2 py-1 text-sm font-semibold text-left text-gray-800 dark:text-gray-100 truncate">{product.name}</p>
+          </button>
+          <button
+            onClick={() => handleDelete(product)}
+            disabled={disabled}
+            aria-label={`Remove ${product.name}`}
+            title="Remove from library"
+            className="absolute top-1 right-1 p-1 rounded-full bg-black/60 text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ))}
+      {products.length === 0 && (
+        <p className="self-center text-sm text-gray-500 dark:text-gray-400">Your product library is empty. Add product cutouts to place them into photos.</p>
+      )}
+    </div>
+  );
+};
+
+export default ProductSelector;
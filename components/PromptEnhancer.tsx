@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { getUserMessage, isCancellation } from '../services/errors';
+import { diffWords } from '../services/textDiff';
+import { SparkleIcon } from './icons';
+
+interface PromptEnhancerProps {
+  prompt: string;
+  /** Asks the model for a detailed version of the prompt, optionally looking at the photo. */
+  onEnhance: (prompt: string, useImage: boolean, signal: AbortSignal) => Promise<string>;
+  onAccept: (prompt: string) => void;
+  /** Whether there is a single photo the rewrite can be tailored to. */
+  canUseImage: boolean;
+  disabled?: boolean;
+}
+
+const PromptEnhancer: React.FC<PromptEnhancerProps> = ({ prompt, onEnhance, onAccept, canUseImage, disabled }) => {
+  const [isEnhancing, setIsEnhancing] = useState(false);
+  const [useImage, setUseImage] = useState(true);
+  // The prompt that was enhanced and the user's working copy of the rewrite
+  const [review, setReview] = useState<{ original: string; enhanced: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const segments = useMemo(() => review ? diffWords(review.original, review.enhanced) : [], [review]);
+
+  const handleEnhance = async () => {
+    const original = prompt.trim();
+    if (!original) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsEnhancing(true);
+    setError(null);
+    setReview(null);
+    try {
+      const enhanced = await onEnhance(original, canUseImage && useImage, controller.signal);
+      setReview({ original, enhanced });
+    } catch (err) {
+      if (isCancellation(err)) return;
+      console.error('Failed to enhance the prompt:', err);
+      setError(`Could not enhance the prompt. ${getUserMessage(err)}`);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsEnhancing(false);
+      }
+    }
+  };
+
+  const handleAccept = () => {
+    if (!review?.enhanced.trim()) return;
+    onAccept(review.enhanced.trim());
+    setReview(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-3">
+        {isEnhancing ? (
+          <>
+            <span className="text-sm font-semibold text-gray-600 dark:text-gray-300 animate-pulse">Enhancing prompt…</span>
+            <button
+              onClick={() => controllerRef.current?.abort()}
+              className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={handleEnhance}
+            disabled={disabled || !prompt.trim()}
+            title="Rewrite this prompt as a detailed instruction"
+            className="flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-semibold bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 transition-all duration-200 hover:bg-blue-200 dark:hover:bg-blue-900 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <SparkleIcon className="w-4 h-4" />
+            Enhance prompt
+          </button>
+        )}
+        {canUseImage && (
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={useImage}
+              onChange={(e) => setUseImage(e.target.checked)}
+              disabled={isEnhancing}
+              className="rounded"
+            />
+            Tailor to this photo
+          </label>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+
+      {review && (
+        <div className="p-3 rounded-lg bg-white dark:bg-gray-700/50 border border-gray-300 dark:border-gray-600 flex flex-col gap-3 animate-fade-in">
+          <p className="text-sm leading-relaxed text-gray-700 dark:text-gray-200" aria-label="Changes to your prompt">
+            {segments.map((segment, index) => (
+              segment.type === 'same' ? <span key={index}>{segment.text}</span>
+              : segment.type === 'added' ? <ins key={index} className="no-underline bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300 rounded-sm">{segment.text}</ins>
+              : <del key={index} className="bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 rounded-sm">{segment.text}</del>
+            ))}
+          </p>
+          <textarea
+            value={review.enhanced}
+            onChange={(e) => setReview({ ...review, enhanced: e.target.value })}
+            rows={3}
+            aria-label="Enhanced prompt"
+            className="w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-100 rounded-md p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setReview(null)}
+              className="px-3 py-1.5 text-sm font-semibold text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleAccept}
+              disabled={disabled || !review.enhanced.trim()}
+              className="px-3 py-1.5 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-500 disabled:bg-blue-300 disabled:cursor-not-allowed"
+            >
+              Use this prompt
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptEnhancer;
@@ -5,16 +5,24 @@
 
 import React from 'react';
 
+/** Where the suggestions came from: the static lists, or tailored to the photo. */
+export type SuggestionSource = 'static' | 'fetching' | 'tailored';
+
 interface PromptSuggestionsProps {
   suggestions: string[];
   onSelect: (prompt: string) => void;
   isLoading: boolean;
+  source?: SuggestionSource;
+  /** What the model saw in the photo, shown on hover over tailored suggestions. */
+  description?: string;
 }
 
-const PromptSuggestions: React.FC<PromptSuggestionsProps> = ({ suggestions, onSelect, isLoading }) => {
+const PromptSuggestions: React.FC<PromptSuggestionsProps> = ({ suggestions, onSelect, isLoading, source = 'static', description }) => {
   return (
     <div className="flex flex-wrap items-center gap-2 mt-3">
-      <p className="text-sm font-medium text-gray-600 dark:text-gray-400 mr-2">Try:</p>
+      <p className="text-sm font-medium text-gray-600 dark:text-gray-400 mr-2" title={source === 'tailored' ? description : undefined}>
+        {source === 'tailored' ? 'Suggested for this photo:' : 'Try:'}
+      </p>
       {suggestions.map((prompt, index) => (
         <button
           key={index}
@@ -25,8 +33,11 @@ const PromptSuggestions: React.FC<PromptSuggestionsProps> = ({ suggestions, onSe
           {prompt}
         </button>
       ))}
+      {source === 'fetching' && (
+        <span className="text-sm text-gray-500 dark:text-gray-400 animate-pulse">Finding ideas for this photo…</span>
+      )}
     </div>
   );
 };
 
-export default PromptSuggestions;
\ No newline at end of file
+export default PromptSuggestions;
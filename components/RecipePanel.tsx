@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { parseRecipe, describeRecipeStep, InvalidRecipeError, type EditRecipe } from '../services/recipes';
+
+/** How far a recipe run on the single image got; `error` is set when it stopped at `stepIndex`. */
+export interface RecipeProgress {
+  stepIndex: number;
+  error: string | null;
+}
+
+interface RecipePanelProps {
+  recipe: EditRecipe | null;
+  onRecipeChange: (recipe: EditRecipe | null) => void;
+  /** Saves the steps that led to the current image; omitted where there is no history. */
+  onExport?: () => void;
+  onApply: () => void;
+  applyLabel: string;
+  progress?: RecipeProgress | null;
+  isRunning: boolean;
+  onRetryStep?: () => void;
+  onSkipStep?: () => void;
+  disabled?: boolean;
+}
+
+const RecipePanel: React.FC<RecipePanelProps> = ({
+  recipe,
+  onRecipeChange,
+  onExport,
+  onApply,
+  applyLabel,
+  progress,
+  isRunning,
+  onRetryStep,
+  onSkipStep,
+  disabled
+}) => {
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onRecipeChange(parseRecipe(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      console.error('Failed to import the recipe:', err);
+      setImportError(err instanceof InvalidRecipeError ? err.message : 'The recipe file could not be read.');
+    }
+  };
+
+  const stepState = (index: number): 'done' | 'running' | 'failed' | 'pending' => {
+    if (!progress || index > progress.stepIndex) return 'pending';
+    if (index < progress.stepIndex) return 'done';
+    if (progress.error) return 'failed';
+    return isRunning ? 'running' : 'done';
+  };
+
+  const failedStep = progress?.error && recipe ? recipe.steps[progress.stepIndex] : null;
+
+  return (
+    <div className="w-full bg-gray-100 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-700 rounded-lg p-4 flex flex-col gap-3">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">Recipe</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Save a chain of edits as a recipe and replay it on other photos.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {onExport && (
+            <button
+              onClick={onExport}
+              disabled={disabled}
+              title="Download the steps that led to this image as a recipe"
+              className="px-4 py-2 text-sm font-semibold text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Export Recipe
+            </button>
+          )}
+          <label className={`px-4 py-2 text-sm font-semibold text-blue-600 bg-blue-100 dark:bg-blue-900/50 dark:text-blue-300 rounded-full ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-blue-200 dark:hover:bg-blue-900'}`}>
+            Import Recipe
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              disabled={disabled}
+              onChange={(e) => {
+                handleImport(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      {importError && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{importError}</p>}
+
+      {recipe && (
+        <div className="flex flex-col gap-3 animate-fade-in">
+          <div className="flex items-center justify-between gap-2">
+            <p className="font-semibold text-gray-800 dark:text-gray-100">{recipe.name}</p>
+            <button
+              onClick={() => onRecipeChange(null)}
+              disabled={isRunning}
+              className="text-sm font-semibold text-gray-500 dark:text-gray-400 hover:underline disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </div>
+          <ol className="flex flex-col gap-1 text-sm">
+            {recipe.steps.map((step, index) => {
+              const state = stepState(index);
+              return (
+                <li key={index} className="flex items-center gap-2">
+                  <span className={`w-5 text-center font-bold ${state === 'done' ? 'text-green-600 dark:text-green-400' : state === 'failed' ? 'text-red-600 dark:text-red-400' : state === 'running' ? 'text-blue-600 dark:text-blue-400 animate-pulse' : 'text-gray-400'}`}>
+                    {state === 'done' ? '✓' : state === 'failed' ? '✗' : state === 'running' ? '•' : index + 1}
+                  </span>
+                  <span className="text-gray-700 dark:text-gray-300 truncate">{describeRecipeStep(step)}</span>
+                </li>
+              );
+            })}
+          </ol>
+
+          {failedStep && progress?.error && (
+            <div className="p-3 rounded-lg bg-red-100 dark:bg-red-900/40 flex flex-col sm:flex-row sm:items-center gap-2">
+              <p className="text-sm text-red-700 dark:text-red-200 flex-grow">
+                Step {progress.stepIndex + 1} ({describeRecipeStep(failedStep)}) failed. {progress.error}
+              </p>
+              {onRetryStep && (
+                <button onClick={onRetryStep} disabled={disabled} className="px-3 py-1 text-sm font-semibold bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50">
+                  Retry Step
+                </button>
+              )}
+              {onSkipStep && (
+                <button onClick={onSkipStep} disabled={disabled} className="px-3 py-1 text-sm font-semibold bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50">
+                  Skip Step
+                </button>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={onApply}
+            disabled={disabled || isRunning}
+            className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+          >
+            {isRunning && progress ? `Applying step ${progress.stepIndex + 1} of ${recipe.steps.length}…` : applyLabel}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecipePanel;
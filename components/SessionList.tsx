@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { listSessions, renameSession, deleteSession, subscribeToSessions, type SessionSummary } from '../services/sessionStore';
+
+interface SessionListProps {
+  onResume: (sessionId: string) => void;
+}
+
+const SessionList: React.FC<SessionListProps> = ({ onResume }) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  useEffect(() => {
+    const load = () => listSessions()
+      .then(setSessions)
+      .catch(err => console.error('Failed to load saved sessions:', err));
+    load();
+    return subscribeToSessions(load);
+  }, []);
+
+  if (sessions.length === 0) return null;
+
+  const startRename = (session: SessionSummary) => {
+    setRenamingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = async () => {
+    if (!renamingId) return;
+    const id = renamingId;
+    setRenamingId(null);
+    try {
+      await renameSession(id, draftName);
+    } catch (err) {
+      console.error('Failed to rename the session:', err);
+    }
+  };
+
+  const handleDelete = async (session: SessionSummary) => {
+    if (!window.confirm(`Delete the saved session "${session.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteSession(session.id);
+    } catch (err) {
+      console.error('Failed to delete the session:', err);
+    }
+  };
+
+  return (
+    <div className="w-full mt-16 text-left">
+      <h2 className="text-2xl font-bold tracking-tight text-gray-800 dark:text-gray-100 mb-4">Continue Editing</h2>
+      <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {sessions.map(session => (
+          <li key={session.id} className="group flex flex-col rounded-lg overflow-hidden border border-gray-300/50 dark:border-gray-700/50 bg-white/60 dark:bg-gray-800/30 transition-colors hover:border-gray-400/80 dark:hover:border-gray-600/80">
+            <button
+              onClick={() => onResume(session.id)}
+              title={`Resume "${session.name}"`}
+              className="w-full h-32 bg-gray-200 dark:bg-gray-800 flex items-center justify-center"
+            >
+              {session.thumbnailUrl
+                ? <img src={session.thumbnailUrl} alt="" className="max-w-full max-h-full object-contain" />
+                : <span className="text-sm text-gray-500 dark:text-gray-400">No preview</span>}
+            </button>
+            <div className="p-3 flex flex-col gap-1">
+              {renamingId === session.id ? (
+                <input
+                  type="text"
+                  value={draftName}
+                  autoFocus
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  aria-label="Session name"
+                  className="w-full bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-100 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                />
+              ) : (
+                <p className="font-semibold text-gray-800 dark:text-gray-100 truncate" title={session.name}>{session.name}</p>
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {session.stepCount} {session.stepCount === 1 ? 'step' : 'steps'} · {new Date(session.updatedAt).toLocaleString()}
+              </p>
+              <div className="flex items-center gap-3 mt-1 text-sm font-semibold">
+                <button onClick={() => onResume(session.id)} className="text-blue-600 dark:text-blue-400 hover:underline">Resume</button>
+                <button onClick={() => startRename(session)} className="text-gray-500 dark:text-gray-400 hover:underline">Rename</button>
+                <button onClick={() => handleDelete(session)} className="text-red-600 dark:text-red-400 hover:underline ml-auto">Delete</button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { getApiKey, setApiKey, clearApiKey, maskApiKey, subscribeToApiKey } from '../services/apiKey';
+import { validateGeminiApiKey } from '../services/geminiProvider';
+import { getUserMessage } from '../services/errors';
+import AdvancedSettingsPanel from './AdvancedSettingsPanel';
+import HistoryMemoryPanel from './HistoryMemoryPanel';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type KeyStatus = { kind: 'idle' } | { kind: 'validating' } | { kind: 'saved' } | { kind: 'error'; message: string };
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
+  const [savedKey, setSavedKey] = useState<string | null>(getApiKey);
+  const [keyInput, setKeyInput] = useState('');
+  const [isKeyVisible, setIsKeyVisible] = useState(false);
+  const [status, setStatus] = useState<KeyStatus>({ kind: 'idle' });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSavedKey(getApiKey());
+    setKeyInput('');
+    setStatus({ kind: 'idle' });
+    return subscribeToApiKey(() => setSavedKey(getApiKey()));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSaveKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const key = keyInput.trim();
+    if (!key) return;
+    setStatus({ kind: 'validating' });
+    try {
+      await validateGeminiApiKey(key);
+      setApiKey(key);
+      setKeyInput('');
+      setStatus({ kind: 'saved' });
+    } catch (err) {
+      console.error('API key validation failed.', err);
+      setStatus({ kind: 'error', message: getUserMessage(err) });
+    }
+  };
+
+  const handleForgetKey = () => {
+    clearApiKey();
+    setStatus({ kind: 'idle' });
+  };
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()} // Prevent closing when clicking inside
+      >
+        <div className="sticky top-0 bg-white/80 dark:bg-gray-800/80 backdrop-blur-md p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+            <h2 id="settings-title" className="text-xl font-bold text-gray-800 dark:text-gray-100">
+                Settings
+            </h2>
+            <button
+                onClick={onClose}
+                className="p-1 rounded-full text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-600 dark:hover:text-gray-200"
+                aria-label="Close settings"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+                </svg>
+            </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-6">
+            <section>
+                <h3 className="font-semibold text-gray-600 dark:text-gray-400 mb-1">Gemini API Key</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                    Your key is checked with Google and stored only in this browser. It is sent to nothing but the Gemini API.
+                </p>
+
+                <div className="flex items-center justify-between gap-3 p-3 mb-3 rounded-lg bg-gray-100 dark:bg-gray-700/50">
+                    {savedKey ? (
+                        <>
+                            <span className="text-sm text-gray-700 dark:text-gray-200">
+                                Saved key: <span className="font-mono">{maskApiKey(savedKey)}</span>
+                            </span>
+                            <button
+                                onClick={handleForgetKey}
+                                className="px-3 py-1.5 text-sm font-semibold text-red-600 dark:text-red-400 rounded-md hover:bg-red-100 dark:hover:bg-red-900/30"
+                            >
+                                Forget Key
+                            </button>
+                        </>
+                    ) : (
+                        <span className="text-sm font-semibold text-amber-600 dark:text-amber-400">No key configured. AI features are unavailable.</span>
+                    )}
+                </div>
+
+                <form onSubmit={handleSaveKey} className="flex flex-col gap-3">
+                    <div className="flex items-center gap-2">
+                        <input
+                            type={isKeyVisible ? 'text' : 'password'}
+                            value={keyInput}
+                            onChange={(e) => setKeyInput(e.target.value)}
+                            placeholder={savedKey ? 'Enter a new key to replace the saved one' : 'Paste your Gemini API key'}
+                            autoComplete="off"
+                            spellCheck={false}
+                            className="flex-grow bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 rounded-md p-2 text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                            disabled={status.kind === 'validating'}
+                        />
+                        <button
+                            type="button"
+                            onClick={() => setIsKeyVisible(visible => !visible)}
+                            className="px-3 py-2 text-sm font-semibold text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600"
+                        >
+                            {isKeyVisible ? 'Hide' : 'Show'}
+                        </button>
+                    </div>
+                    <div className="flex items-center justify-between gap-3">
+                        <div className="text-sm" role="status">
+                            {status.kind === 'validating' && (
+                                <span className="text-gray-500 dark:text-gray-400 animate-pulse">Checking key…</span>
+                            )}
+                            {status.kind === 'saved' && <span className="text-green-600 dark:text-green-400">Key verified and saved.</span>}
+                            {status.kind === 'error' && <span className="text-red-600 dark:text-red-400">{status.message}</span>}
+                        </div>
+                        <button
+                            type="submit"
+                            disabled={!keyInput.trim() || status.kind === 'validating'}
+                            className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-500 disabled:bg-blue-300 disabled:cursor-not-allowed whitespace-nowrap"
+                        >
+                            Validate & Save
+                        </button>
+                    </div>
+                </form>
+            </section>
+
+            <div className="border-t border-gray-200 dark:border-gray-700" />
+
+            <AdvancedSettingsPanel />
+
+            <div className="border-t border-gray-200 dark:border-gray-700" />
+
+            <HistoryMemoryPanel />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -60,6 +60,8 @@ const ShortcutsModal: React.FC<ShortcutsModalProps> = ({ isOpen, onClose }) => {
                 <Shortcut keys={['Cmd/Ctrl', 'Shift', 'Z']} description="Redo (macOS)" />
                 <Shortcut keys={['Ctrl', 'Y']} description="Redo (Windows/Linux)" />
                 <Shortcut keys={['Cmd/Ctrl', 'Enter']} description="Apply current action" />
+                <Shortcut keys={['Esc']} description="Cancel the running AI operation" />
+                <Shortcut keys={['Esc']} description="Cancel the mask shape being drawn" />
                 <Shortcut keys={['Hold C']} description="Compare with original" />
             </div>
 
@@ -68,11 +70,13 @@ const ShortcutsModal: React.FC<ShortcutsModalProps> = ({ isOpen, onClose }) => {
                 <Shortcut keys={['Hold Space', 'Drag']} description="Pan image" />
                 <Shortcut keys={['Scroll Wheel']} description="Zoom in/out" />
                 <Shortcut keys={['Alt', 'V']} description="Reset view (zoom & pan)" />
+                <Shortcut keys={['Alt', 'D']} description="Open request inspector" />
                 <Shortcut keys={['Alt', '1']} description="Switch to Edit tab" />
                 <Shortcut keys={['Alt', '2']} description="Switch to Crop tab" />
                 <Shortcut keys={['Alt', '3']} description="Switch to Adjust tab" />
                 <Shortcut keys={['Alt', '4']} description="Switch to Filters tab" />
                 <Shortcut keys={['Alt', '5']} description="Switch to Uncrop tab" />
+                <Shortcut keys={['Alt', '6']} description="Switch to Products tab" />
             </div>
 
             <div>
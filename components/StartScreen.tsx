@@ -6,12 +6,16 @@
 import React, { useState } from 'react';
 import { UploadIcon, MagicWandIcon, PaletteIcon, SunIcon } from './icons';
 import HeroShowcase from './HeroShowcase';
+import SessionList from './SessionList';
+import { PROJECT_EXTENSION } from '../services/projectFile';
 
 interface StartScreenProps {
   onFileSelect: (files: FileList | null) => void;
+  onResumeSession: (sessionId: string) => void;
+  onOpenProject: (file: File) => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onResumeSession, onOpenProject }) => {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -46,6 +50,20 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect }) => {
                 </label>
                 <input id="image-upload-start" type="file" className="hidden" accept="image/*" onChange={handleFileChange} multiple />
                 <p className="text-sm text-gray-500 dark:text-gray-400">or drag and drop a file (or files)</p>
+                <label htmlFor="project-open-start" className="text-sm font-semibold text-blue-600 dark:text-blue-400 cursor-pointer hover:underline">
+                    Open a Pixelshop project ({PROJECT_EXTENSION})
+                </label>
+                <input
+                  id="project-open-start"
+                  type="file"
+                  className="hidden"
+                  accept={PROJECT_EXTENSION}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onOpenProject(file);
+                    e.target.value = '';
+                  }}
+                />
             </div>
           </div>
           <div className="hidden md:block">
@@ -53,6 +71,8 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect }) => {
           </div>
         </div>
 
+        <SessionList onResume={onResumeSession} />
+
         <div className="mt-24 w-full">
             <h2 className="text-3xl font-bold tracking-tight text-gray-800 dark:text-gray-100 mb-12">
                 Explore the Possibilities
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { getUsageSummary, getUsageBudget, setUsageBudget, checkBudget, exportUsageLog, subscribeToUsage, type UsageTotals, type UsageBudget, type BudgetScope } from '../services/usageMeter';
+
+interface UsageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const OPERATION_LABELS: Record<string, string> = {
+  edit: 'Magic Edit',
+  filter: 'Filters',
+  adjust: 'Adjustments',
+  uncrop: 'Uncrop',
+  place: 'Product placement',
+  detect: 'Object detection',
+  suggest: 'Prompt suggestions',
+  enhance: 'Prompt enhancement',
+};
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 3 : 2)}`;
+
+const TotalsCard: React.FC<{ title: string; totals: UsageTotals }> = ({ title, totals }) => (
+  <div className="flex-1 bg-gray-100 dark:bg-gray-700/50 rounded-lg p-4">
+    <h3 className="font-semibold text-gray-600 dark:text-gray-400 mb-2">{title}</h3>
+    <p className="text-2xl font-bold text-gray-800 dark:text-gray-100">{formatCost(totals.cost)}</p>
+    <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-gray-600 dark:text-gray-300">
+      <dt>Requests</dt><dd className="text-right tabular-nums">{totals.requests}</dd>
+      <dt>Failed</dt><dd className="text-right tabular-nums">{totals.failed}</dd>
+      <dt>From cache</dt><dd className="text-right tabular-nums">{totals.cached}</dd>
+      <dt>Images in / out</dt><dd className="text-right tabular-nums">{totals.inputImages} / {totals.outputImages}</dd>
+      <dt>Tokens</dt><dd className="text-right tabular-nums">{totals.totalTokens.toLocaleString()}</dd>
+      <dt>Avg. latency</dt><dd className="text-right tabular-nums">{totals.requests > 0 ? `${(totals.latencyMs / totals.requests / 1000).toFixed(1)}s` : '–'}</dd>
+    </dl>
+  </div>
+);
+
+const parseLimit = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return value.trim() === '' || isNaN(parsed) || parsed < 0 ? null : parsed;
+};
+
+const UsageModal: React.FC<UsageModalProps> = ({ isOpen, onClose }) => {
+  const [summary, setSummary] = useState(getUsageSummary);
+  const [budget, setBudget] = useState<UsageBudget>(getUsageBudget);
+  const [softLimitInput, setSoftLimitInput] = useState('');
+  const [hardLimitInput, setHardLimitInput] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const refresh = () => {
+      setSummary(getUsageSummary());
+      setBudget(getUsageBudget());
+    };
+    refresh();
+    return subscribeToUsage(refresh);
+  }, [isOpen]);
+
+  useEffect(() => {
+    setSoftLimitInput(budget.softLimit?.toString() ?? '');
+    setHardLimitInput(budget.hardLimit?.toString() ?? '');
+  }, [budget]);
+
+  if (!isOpen) return null;
+
+  const status = checkBudget();
+
+  const handleSaveBudget = () => {
+    setUsageBudget({ ...budget, softLimit: parseLimit(softLimitInput), hardLimit: parseLimit(hardLimitInput) });
+  };
+
+  const handleScopeChange = (scope: BudgetScope) => {
+    setUsageBudget({ ...budget, scope });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportUsageLog()], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `pixelshop-usage-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const inputClass = 'w-24 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 rounded-md p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+  return (
+    <div
+        className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in"
+        onClick={onClose}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="usage-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()} // Prevent closing when clicking inside
+      >
+        <div className="sticky top-0 bg-white/80 dark:bg-gray-800/80 backdrop-blur-md p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+            <h2 id="usage-title" className="text-xl font-bold text-gray-800 dark:text-gray-100">
+                Usage & Budget
+            </h2>
+            <button
+                onClick={onClose}
+                className="p-1 rounded-full text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600 hover:text-gray-600 dark:hover:text-gray-200"
+                aria-label="Close usage modal"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+                </svg>
+            </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-6">
+            <div className="flex flex-col sm:flex-row gap-4">
+                <TotalsCard title="This session" totals={summary.session} />
+                <TotalsCard title="Today" totals={summary.day} />
+            </div>
+
+            <div>
+                <h3 className="font-semibold text-gray-600 dark:text-gray-400 mb-2">Today by operation</h3>
+                {Object.keys(summary.byOperation).length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No AI requests yet today.</p>
+                ) : (
+                    <table className="w-full text-sm text-gray-700 dark:text-gray-300">
+                        <thead>
+                            <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                                <th className="py-2 font-medium">Operation</th>
+                                <th className="py-2 font-medium text-right">Requests</th>
+                                <th className="py-2 font-medium text-right">Tokens</th>
+                                <th className="py-2 font-medium text-right">Cost</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {(Object.entries(summary.byOperation) as [string, UsageTotals][]).map(([operation, totals]) => (
+                                <tr key={operation} className="border-b border-gray-200 dark:border-gray-700">
+                                    <td className="py-2">{OPERATION_LABELS[operation] ?? operation}</td>
+                                    <td className="py-2 text-right tabular-nums">{totals.requests}</td>
+                                    <td className="py-2 text-right tabular-nums">{totals.totalTokens.toLocaleString()}</td>
+                                    <td className="py-2 text-right tabular-nums">{formatCost(totals.cost)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Costs are estimates from reported token counts and published per-token prices.</p>
+            </div>
+
+            <div>
+                <h3 className="font-semibold text-gray-600 dark:text-gray-400 mb-2">Budget (USD)</h3>
+                <div className="flex flex-wrap items-end gap-4">
+                    <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-300">
+                        Applies to
+                        <select
+                            value={budget.scope}
+                            onChange={(e) => handleScopeChange(e.target.value as BudgetScope)}
+                            className="bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 rounded-md p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                        >
+                            <option value="day">Today</option>
+                            <option value="session">This session</option>
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-300">
+                        Warn at
+                        <input type="number" min="0" step="0.5" placeholder="None" value={softLimitInput} onChange={(e) => setSoftLimitInput(e.target.value)} className={inputClass} />
+                    </label>
+                    <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-300">
+                        Block at
+                        <input type="number" min="0" step="0.5" placeholder="None" value={hardLimitInput} onChange={(e) => setHardLimitInput(e.target.value)} className={inputClass} />
+                    </label>
+                    <button
+                        onClick={handleSaveBudget}
+                        className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-500"
+                    >
+                        Save Budget
+                    </button>
+                </div>
+                {status.message && (
+                    <p className={`mt-3 text-sm ${status.level === 'block' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                        {status.message}
+                    </p>
+                )}
+            </div>
+
+            <div className="flex justify-end">
+                <button
+                    onClick={handleExport}
+                    className="px-4 py-2 text-sm font-semibold text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600"
+                >
+                    Export Today's Log
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageModal;
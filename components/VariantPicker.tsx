@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+interface VariantPickerProps {
+  currentImageUrl: string | null;
+  variants: string[];
+  /** Why each variant drifted from the source, or null if it did not. */
+  driftWarnings?: (string | null)[];
+  selectedIndex: number | null;
+  onSelect: (index: number | null) => void;
+  onKeep: () => void;
+  onDiscard: () => void;
+}
+
+const VariantPicker: React.FC<VariantPickerProps> = ({ currentImageUrl, variants, driftWarnings = [], selectedIndex, onSelect, onKeep, onDiscard }) => {
+  const selectedDrift = selectedIndex !== null ? driftWarnings[selectedIndex] : null;
+  const tileClass = (isSelected: boolean) =>
+    `relative flex-shrink-0 w-28 h-28 rounded-lg overflow-hidden border-2 transition-all duration-200 ${isSelected ? 'border-blue-500 shadow-lg shadow-blue-500/30' : 'border-transparent hover:border-gray-400 dark:hover:border-gray-500'}`;
+
+  return (
+    <div className="w-full bg-gray-100 dark:bg-gray-800/50 border border-gray-300 dark:border-gray-700 rounded-lg p-4 flex flex-col gap-3 animate-fade-in">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">Pick a Variant</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Click a thumbnail to preview it. Hold Compare to see the current image.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onDiscard}
+            className="px-4 py-2 text-sm font-semibold text-gray-600 dark:text-gray-300 bg-gray-200 dark:bg-gray-700 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600"
+          >
+            Discard All
+          </button>
+          <button
+            onClick={onKeep}
+            disabled={selectedIndex === null}
+            title={selectedIndex === null ? 'Select a variant to keep' : 'Add the selected variant to history'}
+            className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-full hover:bg-blue-500 disabled:bg-blue-300 disabled:cursor-not-allowed"
+          >
+            Use Variant {selectedIndex !== null ? selectedIndex + 1 : ''}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 overflow-x-auto pb-1">
+        {currentImageUrl && (
+          <button onClick={() => onSelect(null)} className={tileClass(selectedIndex === null)} title="Current image">
+            <img src={currentImageUrl} alt="Current" className="w-full h-full object-cover" />
+            <span className="absolute bottom-1 left-1 px-2 py-0.5 text-xs font-bold rounded-full bg-black/60 text-white">Current</span>
+          </button>
+        )}
+        {variants.map((url, index) => (
+          <button key={index} onClick={() => onSelect(index)} className={tileClass(selectedIndex === index)} title={driftWarnings[index] ?? `Variant ${index + 1}`}>
+            <img src={url} alt={`Variant ${index + 1}`} className="w-full h-full object-cover" />
+            <span className="absolute bottom-1 left-1 px-2 py-0.5 text-xs font-bold rounded-full bg-black/60 text-white">{index + 1}</span>
+            {driftWarnings[index] && (
+              <span className="absolute top-1 right-1 px-2 py-0.5 text-xs font-bold rounded-full bg-amber-400 text-amber-900">Drifted</span>
+            )}
+          </button>
+        ))}
+      </div>
+      {selectedDrift && (
+        <p className="text-sm text-amber-800 dark:text-amber-200">Variant {selectedIndex! + 1}: {selectedDrift}</p>
+      )}
+    </div>
+  );
+};
+
+export default VariantPicker;
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * The Gemini API key is entered by each user in Settings and kept in this
+ * browser's localStorage. It is never part of the build, and the service layer
+ * reads it at call time, so changing or forgetting the key takes effect on the
+ * next request without a reload.
+ */
+
+const API_KEY_STORAGE_KEY = 'pixelshop-gemini-api-key';
+
+const listeners = new Set<() => void>();
+
+export const getApiKey = (): string | null => {
+    try {
+        return localStorage.getItem(API_KEY_STORAGE_KEY) || null;
+    } catch (error) {
+        console.error('Failed to read the API key from localStorage', error);
+        return null;
+    }
+};
+
+export const hasApiKey = (): boolean => getApiKey() !== null;
+
+export const setApiKey = (key: string): void => {
+    try {
+        localStorage.setItem(API_KEY_STORAGE_KEY, key.trim());
+    } catch (error) {
+        console.error('Failed to save the API key to localStorage', error);
+        throw new Error('The API key could not be saved in this browser.');
+    }
+    listeners.forEach(listener => listener());
+};
+
+export const clearApiKey = (): void => {
+    try {
+        localStorage.removeItem(API_KEY_STORAGE_KEY);
+    } catch (error) {
+        console.error('Failed to remove the API key from localStorage', error);
+    }
+    listeners.forEach(listener => listener());
+};
+
+/** Shows only the last few characters, for displaying which key is saved. */
+export const maskApiKey = (key: string): string =>
+    key.length <= 4 ? '••••' : `••••••••${key.slice(-4)}`;
+
+/** Calls `listener` whenever the key is saved or forgotten; returns an unsubscribe function. */
+export const subscribeToApiKey = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
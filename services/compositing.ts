@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { PixelRect } from './imageProvider';
+import { loadImage, createCanvas } from './imageUtils';
+import { clampRect, type Size } from './coordinates';
+
+export type CompositeRegion =
+    | { kind: 'rect'; rect: PixelRect }
+    | { kind: 'mask'; mask: File };
+
+export const DEFAULT_FEATHER_RADIUS = 8;
+export const MAX_FEATHER_RADIUS = 64;
+
+// Draws the region in white on black into a canvas covering `bounds` of an
+// image of `size`.
+const drawRegion = (ctx: CanvasRenderingContext2D, region: CompositeRegion, maskImage: HTMLImageElement | null, bounds: PixelRect, size: Size) => {
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, bounds.width, bounds.height);
+    if (region.kind === 'rect') {
+        const { x, y, width, height } = region.rect;
+        ctx.fillStyle = 'white';
+        ctx.fillRect(Math.round(x) - bounds.x, Math.round(y) - bounds.y, Math.round(width), Math.round(height));
+    } else if (maskImage) {
+        ctx.drawImage(maskImage, -bounds.x, -bounds.y, size.width, size.height);
+    }
+};
+
+// Smallest rectangle, in pixels of an image of `size`, containing every white
+// pixel of the region; null when the region is empty.
+const measureRegion = (region: CompositeRegion, maskImage: HTMLImageElement | null, size: Size): PixelRect | null => {
+    if (region.kind === 'rect' || !maskImage) {
+        const rect = region.kind === 'rect' ? clampRect(region.rect, size) : null;
+        return rect && rect.width > 0 && rect.height > 0 ? rect : null;
+    }
+    // Scan the mask at its own resolution, then scale the box up to the image.
+    const maskWidth = maskImage.naturalWidth;
+    const maskHeight = maskImage.naturalHeight;
+    const { ctx } = createCanvas(maskWidth, maskHeight);
+    ctx.drawImage(maskImage, 0, 0);
+    const data = ctx.getImageData(0, 0, maskWidth, maskHeight).data;
+    let left = maskWidth, top = maskHeight, right = -1, bottom = -1;
+    for (let y = 0; y < maskHeight; y++) {
+        for (let x = 0; x < maskWidth; x++) {
+            if (data[(y * maskWidth + x) * 4] === 0) continue;
+            if (x < left) left = x;
+            if (x > right) right = x;
+            if (y < top) top = y;
+            if (y > bottom) bottom = y;
+        }
+    }
+    if (right < 0) return null;
+    const scaleX = size.width / maskWidth;
+    const scaleY = size.height / maskHeight;
+    return clampRect({
+        x: Math.floor(left * scaleX) - 1,
+        y: Math.floor(top * scaleY) - 1,
+        width: Math.ceil((right - left + 1) * scaleX) + 2,
+        height: Math.ceil((bottom - top + 1) * scaleY) + 2,
+    }, size);
+};
+
+/**
+ * Finds the part of an image a region can change, so large images only need
+ * that rectangle processed.
+ * @param region The rectangle or mask to measure.
+ * @param size The pixel size of the image the region applies to.
+ * @returns The bounding box in image pixels, or null if the region is empty.
+ */
+export const findRegionBounds = async (region: CompositeRegion, size: Size): Promise<PixelRect | null> => {
+    const maskImage = region.kind === 'mask' ? await loadImage(region.mask) : null;
+    return measureRegion(region, maskImage, size);
+};
+
+// Builds a per-pixel blend weight (0-1) for the region within `bounds`.
+// Feathering only fades inwards: the blurred edge is clipped by the hard
+// region, so every pixel outside the selection keeps a weight of exactly zero.
+const buildRegionWeights = (region: CompositeRegion, maskImage: HTMLImageElement | null, bounds: PixelRect, size: Size, featherRadius: number): Float32Array => {
+    const { width, height } = bounds;
+    const { canvas: hardCanvas, ctx: hardCtx } = createCanvas(width, height);
+    drawRegion(hardCtx, region, maskImage, bounds, size);
+    const hard = hardCtx.getImageData(0, 0, width, height).data;
+
+    let soft = hard;
+    if (featherRadius > 0) {
+        // Pad with a stretched copy before blurring so regions touching the image
+        // border are not feathered against the (transparent) outside of the canvas.
+        const padding = featherRadius * 3;
+        const { canvas: paddedCanvas, ctx: paddedCtx } = createCanvas(width + padding * 2, height + padding * 2);
+        paddedCtx.drawImage(hardCanvas, 0, 0, paddedCanvas.width, paddedCanvas.height);
+        paddedCtx.drawImage(hardCanvas, padding, padding);
+
+        const { ctx: softCtx } = createCanvas(paddedCanvas.width, paddedCanvas.height);
+        softCtx.filter = `blur(${featherRadius}px)`;
+        softCtx.drawImage(paddedCanvas, 0, 0);
+        soft = softCtx.getImageData(padding, padding, width, height).data;
+    }
+
+    // A blurred edge sits at 0.5 on the region boundary; remapping 0.5-1 onto 0-1
+    // moves the whole falloff inside the region.
+    const weights = new Float32Array(width * height);
+    for (let i = 0; i < weights.length; i++) {
+        const inside = hard[i * 4] / 255;
+        if (inside === 0) continue;
+        weights[i] = soft === hard ? inside : Math.min(inside, Math.max(0, (soft[i * 4] / 255) * 2 - 1));
+    }
+    return weights;
+};
+
+/**
+ * Blends a generated image back onto the image it was generated from, so only
+ * the selected region can change. The generated image is resampled to the base
+ * size first, and pixels outside the region are copied from the base untouched.
+ * Only the region's bounding box is read and written, which keeps large images cheap.
+ * @param base The image that was sent to the model.
+ * @param generatedUrl Data URL of the model output.
+ * @param region The rectangle (in base pixels) or black and white mask that was edited.
+ * @param featherRadius Width in pixels of the soft edge inside the region.
+ * @returns A promise that resolves to the data URL of the composited image.
+ */
+export const compositeIntoRegion = async (
+    base: File,
+    generatedUrl: string,
+    region: CompositeRegion,
+    featherRadius: number = DEFAULT_FEATHER_RADIUS,
+): Promise<string> => {
+    const [baseImage, generatedImage, maskImage] = await Promise.all([
+        loadImage(base),
+        loadImage(generatedUrl),
+        region.kind === 'mask' ? loadImage(region.mask) : Promise.resolve(null),
+    ]);
+    const size = { width: baseImage.naturalWidth, height: baseImage.naturalHeight };
+    const radius = Math.max(0, Math.min(MAX_FEATHER_RADIUS, featherRadius));
+
+    const { canvas, ctx } = createCanvas(size.width, size.height);
+    ctx.drawImage(baseImage, 0, 0);
+
+    const regionBounds = measureRegion(region, maskImage, size);
+    if (regionBounds) {
+        // Leave room around the region for the blur to fall off naturally.
+        const margin = radius * 3;
+        const bounds = clampRect({
+            x: regionBounds.x - margin,
+            y: regionBounds.y - margin,
+            width: regionBounds.width + margin * 2,
+            height: regionBounds.height + margin * 2,
+        }, size);
+        const output = ctx.getImageData(bounds.x, bounds.y, bounds.width, bounds.height);
+
+        const { ctx: generatedCtx } = createCanvas(bounds.width, bounds.height);
+        generatedCtx.imageSmoothingQuality = 'high';
+        generatedCtx.drawImage(generatedImage, -bounds.x, -bounds.y, size.width, size.height);
+        const generated = generatedCtx.getImageData(0, 0, bounds.width, bounds.height).data;
+
+        const weights = buildRegionWeights(region, maskImage, bounds, size, radius);
+        const data = output.data;
+        for (let i = 0; i < weights.length; i++) {
+            const weight = weights[i];
+            if (weight === 0) continue;
+            const offset = i * 4;
+            for (let channel = 0; channel < 4; channel++) {
+                data[offset + channel] = Math.round(data[offset + channel] + (generated[offset + channel] - data[offset + channel]) * weight);
+            }
+        }
+        ctx.putImageData(output, bounds.x, bounds.y);
+    }
+
+    console.log(`Composited ${region.kind} region with a ${radius}px feather.`);
+    return canvas.toDataURL('image/png');
+};
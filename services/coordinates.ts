@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { PixelRect } from './imageProvider';
+import { ImageTooLargeError } from './errors';
+
+/*
+ * The editor works in three coordinate spaces:
+ * - screen space: client pixels, after the zoom/pan transform is applied;
+ * - display space: the laid-out <img>/<canvas> before the transform;
+ * - natural space: the pixels of the image file itself.
+ * ReactCrop measures its box with getBoundingClientRect, so its pixel crops are
+ * in screen space and change with zoom. Its percentage crops do not, so every
+ * selection is kept as a percentage and only converted to natural pixels at
+ * the point of use.
+ */
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+/** A rectangle expressed in percent (0-100) of the image size, as ReactCrop's PercentCrop. */
+export interface PercentRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Clamps a rectangle to the image bounds and snaps it to whole pixels. */
+export const clampRect = (rect: PixelRect, size: Size): PixelRect => {
+    const x = Math.max(0, Math.min(size.width, Math.round(rect.x)));
+    const y = Math.max(0, Math.min(size.height, Math.round(rect.y)));
+    const right = Math.max(x, Math.min(size.width, Math.round(rect.x + rect.width)));
+    const bottom = Math.max(y, Math.min(size.height, Math.round(rect.y + rect.height)));
+    return { x, y, width: right - x, height: bottom - y };
+};
+
+export const percentRectToNatural = (rect: PercentRect, size: Size): PixelRect =>
+    clampRect({
+        x: rect.x / 100 * size.width,
+        y: rect.y / 100 * size.height,
+        width: rect.width / 100 * size.width,
+        height: rect.height / 100 * size.height,
+    }, size);
+
+export const naturalRectToPercent = (rect: PixelRect, size: Size): PercentRect => ({
+    x: rect.x / size.width * 100,
+    y: rect.y / size.height * 100,
+    width: rect.width / size.width * 100,
+    height: rect.height / size.height * 100,
+});
+
+export const getNaturalSize = (image: HTMLImageElement): Size => ({
+    width: image.naturalWidth,
+    height: image.naturalHeight,
+});
+
+/**
+ * Maps a pointer position in screen space onto an element whose content is
+ * `target` pixels in size (an image's natural size, or a canvas's backing store).
+ * Works under any zoom/pan transform because it measures the element as rendered.
+ */
+export const clientPointToTarget = (clientX: number, clientY: number, element: Element, target: Size): { x: number; y: number } | null => {
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
+    return {
+        x: (clientX - rect.left) / rect.width * target.width,
+        y: (clientY - rect.top) / rect.height * target.height,
+    };
+};
+
+/** How many target pixels one screen pixel covers on the element, e.g. to size a brush. */
+export const screenToTargetScale = (element: Element, target: Size): number => {
+    const rect = element.getBoundingClientRect();
+    return rect.width > 0 ? target.width / rect.width : 1;
+};
+
+/** Grows a rectangle by `ratio` of its size on every side, staying inside the image. */
+export const expandRect = (rect: PixelRect, ratio: number, size: Size): PixelRect => {
+    const marginX = rect.width * ratio;
+    const marginY = rect.height * ratio;
+    return clampRect({
+        x: rect.x - marginX,
+        y: rect.y - marginY,
+        width: rect.width + marginX * 2,
+        height: rect.height + marginY * 2,
+    }, size);
+};
+
+// The browser's canvas size limit; the model itself only ever sees a bounded proxy.
+const MAX_CANVAS_DIMENSION = 16384;
+// Uncropping holds several canvases of the full result size at once, at 4 bytes
+// a pixel, so the total size is capped well below what the side limit allows.
+const MAX_CANVAS_PIXELS = 64_000_000;
+
+export interface UncropSize extends Size {
+    /** How much the result was scaled down to fit the canvas limits; 1 if it was not. */
+    scale: number;
+}
+
+/**
+ * The canvas size for uncropping to an aspect ratio: one side of the image is
+ * kept and the other grows, scaled down if it would exceed the canvas limits.
+ * @throws ImageTooLargeError if the aspect ratio is so extreme that no scaled canvas fits.
+ */
+export const getUncropSize = (size: Size, aspectRatio: number): UncropSize => {
+    let width: number;
+    let height: number;
+    if (aspectRatio > size.width / size.height) {
+        // New aspect is wider, so we match the height and expand the width
+        height = size.height;
+        width = Math.round(size.height * aspectRatio);
+    } else {
+        // New aspect is taller, so we match the width and expand the height
+        width = size.width;
+        height = Math.round(size.width / aspectRatio);
+    }
+    const scale = Math.min(1, MAX_CANVAS_DIMENSION / width, MAX_CANVAS_DIMENSION / height, Math.sqrt(MAX_CANVAS_PIXELS / (width * height)));
+    if (scale === 1) {
+        return { width, height, scale };
+    }
+    const scaled = { width: Math.floor(width * scale), height: Math.floor(height * scale), scale };
+    if (scaled.width < 1 || scaled.height < 1) {
+        throw new ImageTooLargeError(width, height);
+    }
+    console.warn(`Uncrop dimensions too large, scaled down to ${scaled.width}x${scaled.height}`);
+    return scaled;
+};
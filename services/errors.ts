@@ -0,0 +1,268 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Base class for every failure of an AI operation. `retryable` tells the retry
+ * helper whether trying again can help, and `userMessage` is the text the
+ * editor shows in its error banner.
+ */
+export class AiOperationError extends Error {
+    name = 'AiOperationError';
+    readonly retryable: boolean = false;
+    readonly userMessage: string = 'Something went wrong while talking to the AI model. Please try again.';
+
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message);
+        if (options?.cause !== undefined) {
+            (this as { cause?: unknown }).cause = options.cause;
+        }
+    }
+}
+
+/** The prompt itself was rejected before any generation happened. */
+export class PromptBlockedError extends AiOperationError {
+    name = 'PromptBlockedError';
+    readonly userMessage: string;
+
+    constructor(readonly blockReason: string, details?: string) {
+        super(`Request was blocked. Reason: ${blockReason}. ${details || ''}`.trim());
+        this.userMessage = 'Your request was blocked by the content policy. Retrying will not help; please change the prompt.';
+    }
+}
+
+/** Generation started but was stopped by a safety or policy check. */
+export class SafetyStopError extends AiOperationError {
+    name = 'SafetyStopError';
+    readonly userMessage: string;
+
+    constructor(readonly finishReason: string, context: string) {
+        super(`Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}.`);
+        this.userMessage = `The ${context} was stopped by a safety check (${finishReason}). Try rephrasing the prompt or selecting a different area.`;
+    }
+}
+
+/** The model answered, but with text instead of an image. */
+export class NoImageReturnedError extends AiOperationError {
+    name = 'NoImageReturnedError';
+    readonly retryable: boolean;
+    readonly userMessage: string;
+
+    constructor(context: string, readonly modelText?: string) {
+        super(`The AI model did not return an image for the ${context}.` + (modelText ? ` The model responded with text: "${modelText}"` : ''));
+        // A text reply is usually the model explaining a refusal; an empty reply is worth another try.
+        this.retryable = !modelText;
+        this.userMessage = modelText
+            ? `The model did not return an image for the ${context}. It said: "${modelText}"`
+            : `The model did not return an image for the ${context}. Try rephrasing your prompt to be more direct.`;
+    }
+}
+
+/** HTTP 429 or an exhausted quota. */
+export class QuotaExceededError extends AiOperationError {
+    name = 'QuotaExceededError';
+    readonly retryable = true;
+    readonly userMessage = 'The AI service is rate limiting requests or the quota is used up. Please wait a moment and try again.';
+}
+
+/** The request never reached the service, or the service failed with a 5xx. */
+export class NetworkError extends AiOperationError {
+    name = 'NetworkError';
+    readonly retryable = true;
+    readonly userMessage = 'Could not reach the AI service. Check your connection and try again.';
+}
+
+/** The response could not be understood (malformed data, unexpected shape, bad request). */
+export class InvalidResponseError extends AiOperationError {
+    name = 'InvalidResponseError';
+    readonly userMessage = 'The AI service returned a response the editor could not use. Please try again.';
+}
+
+/** No API key has been entered in Settings. */
+export class MissingApiKeyError extends AiOperationError {
+    name = 'MissingApiKeyError';
+    readonly userMessage = 'No Gemini API key is configured. Add your key in Settings to use AI features.';
+
+    constructor(message = 'No Gemini API key is configured.') {
+        super(message);
+    }
+}
+
+/** The service rejected the configured API key. */
+export class InvalidApiKeyError extends AiOperationError {
+    name = 'InvalidApiKeyError';
+    readonly userMessage = 'The Gemini API key was rejected. Check or replace it in Settings.';
+}
+
+/** HTTP 403: the key is valid but not allowed to use this model or feature. */
+export class PermissionDeniedError extends AiOperationError {
+    name = 'PermissionDeniedError';
+    readonly userMessage = 'The Gemini API key does not have access to this model or feature. Check the key\'s project and permissions, or choose another model in Settings.';
+}
+
+/** HTTP 400 or 404: the service rejected the request itself, e.g. an unknown model id or an invalid setting. */
+export class RequestRejectedError extends AiOperationError {
+    name = 'RequestRejectedError';
+    readonly userMessage = 'The AI service rejected the request as invalid. Retrying will not help; check the model and generation settings.';
+}
+
+/** Sending the request would exceed the hard limit of the usage budget. */
+export class BudgetExceededError extends AiOperationError {
+    name = 'BudgetExceededError';
+    readonly userMessage: string;
+
+    constructor(message: string) {
+        super(message);
+        this.userMessage = `${message} Raise the limit in Usage & Budget to continue.`;
+    }
+}
+
+/** The active provider cannot perform the requested operation at all. */
+export class UnsupportedOperationError extends AiOperationError {
+    name = 'UnsupportedOperationError';
+    readonly userMessage: string;
+
+    constructor(operation: string, providerLabel: string) {
+        super(`The ${providerLabel} provider does not support ${operation}.`);
+        this.userMessage = `The ${providerLabel} provider does not support ${operation}.`;
+    }
+}
+
+/** The result cannot fit the browser's canvas limits, even scaled down. */
+export class ImageTooLargeError extends AiOperationError {
+    name = 'ImageTooLargeError';
+    readonly userMessage: string;
+
+    constructor(width: number, height: number) {
+        super(`A ${width}x${height} image cannot be scaled to fit the browser's canvas limits.`);
+        this.userMessage = `The result would be ${width}x${height} pixels, which cannot be scaled to fit in the browser. Try a less extreme aspect ratio.`;
+    }
+}
+
+/** A step run in the browser, such as loading, resizing or compositing an image, failed. */
+export class ProcessingError extends AiOperationError {
+    name = 'ProcessingError';
+    readonly userMessage = 'Processing the image failed. Please try again.';
+}
+
+/** The user cancelled the operation; nothing should be shown or retried. */
+export class OperationCancelledError extends AiOperationError {
+    name = 'OperationCancelledError';
+    readonly userMessage = 'The operation was cancelled.';
+
+    constructor(message = 'The operation was cancelled.') {
+        super(message);
+    }
+}
+
+export const isCancellation = (err: unknown): boolean =>
+    err instanceof OperationCancelledError || (err as { name?: unknown })?.name === 'AbortError';
+
+/** Throws an OperationCancelledError if the signal has already been aborted. */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+    if (signal?.aborted) {
+        throw new OperationCancelledError();
+    }
+};
+
+const readStatus = (err: unknown): number | undefined => {
+    const status = (err as { status?: unknown })?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Maps an error thrown by a provider's SDK call into the taxonomy above.
+ * Errors that are already classified pass through unchanged. Only use this
+ * around the call itself; anything the SDK does not recognise is taken to be
+ * a response the editor could not use.
+ */
+export const classifyError = (err: unknown): AiOperationError => {
+    if (err instanceof AiOperationError) return err;
+    if (isCancellation(err)) return new OperationCancelledError();
+
+    const message = err instanceof Error ? err.message : String(err);
+    const status = readStatus(err);
+
+    if (status === 401 || /API key not valid|API_KEY_INVALID|API key expired/i.test(message)) {
+        return new InvalidApiKeyError(message, { cause: err });
+    }
+    if (status === 403 || /PERMISSION_DENIED/.test(message)) {
+        return new PermissionDeniedError(message, { cause: err });
+    }
+    if (status === 400 || status === 404 || /INVALID_ARGUMENT|NOT_FOUND/.test(message)) {
+        return new RequestRejectedError(message, { cause: err });
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+        return new QuotaExceededError(message, { cause: err });
+    }
+    if ((status !== undefined && status >= 500) || /failed to fetch|networkerror|network request failed|load failed/i.test(message)) {
+        return new NetworkError(message, { cause: err });
+    }
+    return new InvalidResponseError(message, { cause: err });
+};
+
+// Errors that did not come from a provider were thrown by the editor's own
+// processing, e.g. an image that could not be decoded or a canvas that could
+// not be encoded, so they are not blamed on the AI service.
+const toOperationError = (err: unknown): AiOperationError => {
+    if (err instanceof AiOperationError) return err;
+    if (isCancellation(err)) return new OperationCancelledError();
+    const message = err instanceof Error ? err.message : String(err);
+    return new ProcessingError(message, { cause: err });
+};
+
+/** The message to show the user for any thrown value. */
+export const getUserMessage = (err: unknown): string => toOperationError(err).userMessage;
+
+export interface RetryOptions {
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+    onRetry?: (error: AiOperationError, attempt: number, delayMs: number) => void;
+}
+
+// Resolves after `ms`, or rejects early with OperationCancelledError when the signal aborts.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            return reject(new OperationCancelledError());
+        }
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            reject(new OperationCancelledError());
+        };
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+/**
+ * Runs `operation`, retrying retryable failures with exponential backoff and jitter.
+ * Non-retryable failures, and the last retryable one, are rethrown as an AiOperationError;
+ * providers classify their own SDK errors, so anything else is a processing failure.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const { retries = 2, baseDelayMs = 1000, maxDelayMs = 8000, signal, onRetry } = options;
+
+    for (let attempt = 0; ; attempt++) {
+        throwIfAborted(signal);
+        try {
+            return await operation();
+        } catch (err) {
+            const error = signal?.aborted ? new OperationCancelledError() : toOperationError(err);
+            if (!error.retryable || attempt >= retries) {
+                throw error;
+            }
+            const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+            const delayMs = Math.round(backoff / 2 + Math.random() * backoff / 2);
+            console.warn(`${error.name} on attempt ${attempt + 1}, retrying in ${delayMs}ms.`, error);
+            onRetry?.(error, attempt + 1, delayMs);
+            await sleep(delayMs, signal);
+        }
+    }
+};
@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse, HarmCategory, HarmBlockThreshold, type GenerateContentConfig, type SafetySetting } from "@google/genai";
+import type { ImageEditProvider, ImageOperation, ImageGenerationRequest, ImageGenerationResult, AnalysisRequest, AnalysisResult, ProviderResponseDetails, TokenUsage } from './imageProvider';
+import { PromptBlockedError, SafetyStopError, NoImageReturnedError, InvalidResponseError, MissingApiKeyError, classifyError, throwIfAborted } from './errors';
+import { getApiKey } from './apiKey';
+import { DEFAULT_IMAGE_MODEL, SAFETY_CATEGORIES, type GenerationSettings, type SafetyCategory } from './generationSettings';
+
+const IMAGE_MODEL = DEFAULT_IMAGE_MODEL;
+// Analysis replies are JSON, which the image model does not produce reliably.
+const ANALYSIS_MODEL = 'gemini-2.5-flash';
+
+// How each operation is named in error messages.
+const OPERATION_NAMES: Record<ImageOperation, string> = {
+    edit: 'edit',
+    filter: 'filter',
+    adjust: 'adjustment',
+    uncrop: 'uncrop',
+    place: 'product placement',
+};
+
+const HARM_CATEGORIES: Record<SafetyCategory, HarmCategory> = {
+    harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+    hateSpeech: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+    sexuallyExplicit: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+    dangerousContent: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+};
+
+// Only settings that differ from the model defaults are sent. A fixed seed is
+// offset by the variant index, otherwise every variant of a run would be the same.
+const buildGenerationConfig = (settings: GenerationSettings | undefined, variant: number = 0): GenerateContentConfig => {
+    if (!settings) return {};
+    const config: GenerateContentConfig = {};
+    if (settings.temperature !== null) config.temperature = settings.temperature;
+    if (settings.seed !== null) config.seed = settings.seed + variant;
+    const safetySettings: SafetySetting[] = SAFETY_CATEGORIES
+        .filter(category => settings.safety[category] !== 'default')
+        .map(category => ({
+            category: HARM_CATEGORIES[category],
+            threshold: settings.safety[category] as HarmBlockThreshold,
+        }));
+    if (safetySettings.length > 0) config.safetySettings = safetySettings;
+    return config;
+};
+
+// Helper function to convert a File object to a Gemini API Part
+const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const mimeType = mimeMatch[1];
+    const data = arr[1];
+    return { inlineData: { mimeType, data } };
+};
+
+const handleApiResponse = (
+    response: GenerateContentResponse,
+    context: string // e.g., "edit", "filter", "adjustment"
+): string => {
+    // 1. Check for prompt blocking first
+    if (response.promptFeedback?.blockReason) {
+        const { blockReason, blockReasonMessage } = response.promptFeedback;
+        const error = new PromptBlockedError(blockReason, blockReasonMessage);
+        console.error(error.message, { response });
+        throw error;
+    }
+
+    // 2. Try to find the image part
+    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+
+    if (imagePartFromResponse?.inlineData) {
+        const { mimeType, data } = imagePartFromResponse.inlineData;
+        if (!mimeType || !data) {
+            throw new InvalidResponseError(`The image part returned for ${context} was empty.`);
+        }
+        console.log(`Received image data (${mimeType}) for ${context}`);
+        return `data:${mimeType};base64,${data}`;
+    }
+
+    // 3. If no image, check for other reasons
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && finishReason !== 'STOP') {
+        const error = new SafetyStopError(finishReason, context);
+        console.error(error.message, { response });
+        throw error;
+    }
+
+    const error = new NoImageReturnedError(context, response.text?.trim() || undefined);
+    console.error(`Model response did not contain an image part for ${context}.`, { response });
+    throw error;
+};
+
+const readUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+    const metadata = response.usageMetadata;
+    if (!metadata) return undefined;
+    const promptTokens = metadata.promptTokenCount ?? 0;
+    const outputTokens = metadata.candidatesTokenCount ?? 0;
+    return { promptTokens, outputTokens, totalTokens: metadata.totalTokenCount ?? promptTokens + outputTokens };
+};
+
+const describeResponse = (response: GenerateContentResponse): ProviderResponseDetails => {
+    const candidate = response.candidates?.[0];
+    const text = candidate?.content?.parts?.flatMap(part => part.text ? [part.text] : []).join('\n').trim();
+    return {
+        finishReason: candidate?.finishReason,
+        blockReason: response.promptFeedback?.blockReason,
+        text: text || undefined,
+        metadata: {
+            responseId: response.responseId,
+            modelVersion: response.modelVersion,
+            usageMetadata: response.usageMetadata,
+            promptFeedback: response.promptFeedback,
+            finishMessage: candidate?.finishMessage,
+            safetyRatings: candidate?.safetyRatings,
+        },
+    };
+};
+
+const createClient = (): GoogleGenAI => {
+    // Read at call time so a key saved or forgotten in Settings applies immediately.
+    const apiKey = getApiKey();
+    if (!apiKey) {
+        throw new MissingApiKeyError();
+    }
+    return new GoogleGenAI({ apiKey });
+};
+
+const generateImage = async (request: ImageGenerationRequest): Promise<ImageGenerationResult> => {
+    const ai = createClient();
+
+    const parts: ({ inlineData: { mimeType: string; data: string; } } | { text: string })[] = [await fileToPart(request.image)];
+    if (request.context) {
+        parts.push(await fileToPart(request.context));
+    }
+    if (request.product) {
+        parts.push(await fileToPart(request.product));
+    }
+    if (request.mask) {
+        parts.push(await fileToPart(request.mask));
+    }
+    parts.push({ text: request.prompt });
+    throwIfAborted(request.signal);
+
+    const model = request.settings?.model || IMAGE_MODEL;
+    console.log(`Sending ${parts.length - 1} image part(s) and the ${request.operation} prompt to ${model}...`);
+    let response: GenerateContentResponse;
+    try {
+        response = await ai.models.generateContent({
+            model,
+            contents: { parts },
+            config: { ...buildGenerationConfig(request.settings, request.variant), abortSignal: request.signal },
+        });
+    } catch (err) {
+        throw classifyError(err);
+    }
+    throwIfAborted(request.signal);
+    console.log(`Received response from model for ${request.operation}.`, response);
+    request.onResponse?.(describeResponse(response));
+
+    const imageUrl = handleApiResponse(response, OPERATION_NAMES[request.operation]);
+    return { imageUrl, usage: readUsage(response) };
+};
+
+const analyzeImage = async (request: AnalysisRequest): Promise<AnalysisResult> => {
+    const ai = createClient();
+    const parts = request.image ? [await fileToPart(request.image), { text: request.prompt }] : [{ text: request.prompt }];
+    throwIfAborted(request.signal);
+
+    console.log(`Sending the ${request.operation} prompt to ${ANALYSIS_MODEL}...`);
+    let response: GenerateContentResponse;
+    try {
+        response = await ai.models.generateContent({
+            model: ANALYSIS_MODEL,
+            contents: { parts },
+            config: {
+                responseMimeType: 'application/json',
+                responseJsonSchema: request.responseSchema,
+                // Thinking adds latency and cost without improving these short structured replies.
+                thinkingConfig: { thinkingBudget: 0 },
+                abortSignal: request.signal,
+            },
+        });
+    } catch (err) {
+        throw classifyError(err);
+    }
+    throwIfAborted(request.signal);
+    console.log(`Received response from model for ${request.operation}.`, response);
+    request.onResponse?.(describeResponse(response));
+
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new PromptBlockedError(blockReason, response.promptFeedback?.blockReasonMessage);
+    }
+    try {
+        return { data: JSON.parse(response.text ?? ''), usage: readUsage(response) };
+    } catch {
+        throw new InvalidResponseError(`The ${request.operation} response was not valid JSON.`);
+    }
+};
+
+/**
+ * Checks that a key is accepted by the API and can use the image model.
+ * @param apiKey The key to check.
+ * @param signal Optional abort signal.
+ * @returns A promise that resolves if the key works and rejects with a classified error otherwise.
+ */
+export const validateGeminiApiKey = async (apiKey: string, signal?: AbortSignal): Promise<void> => {
+    const ai = new GoogleGenAI({ apiKey: apiKey.trim() });
+    try {
+        await ai.models.get({ model: IMAGE_MODEL, config: { abortSignal: signal } });
+    } catch (err) {
+        throw classifyError(err);
+    }
+};
+
+export const geminiProvider: ImageEditProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    model: IMAGE_MODEL,
+    requiresApiKey: true,
+    configurable: true,
+    analysisModel: ANALYSIS_MODEL,
+    generateImage,
+    analyzeImage,
+};
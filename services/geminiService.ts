@@ -3,85 +3,284 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-
-// Helper function to convert a File object to a Gemini API Part
-const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
+import { getImageEditProvider, resolveModel, isAnalysisOperation, type ImageEditProvider, type ImageGenerationRequest, type ImageOperation, type AnalysisOperation, type AnalysisRequest, type ProviderResponseDetails, type TokenUsage } from './imageProvider';
+import { withRetry, throwIfAborted, isCancellation, BudgetExceededError, UnsupportedOperationError } from './errors';
+import { compositeIntoRegion, findRegionBounds, type CompositeRegion } from './compositing';
+import { clampRect, expandRect } from './coordinates';
+import { cropImageFile, hashFile } from './imageUtils';
+import { normalizeResult, type DriftReport } from './resultValidation';
+import { computeResultKey, getCachedResult, putCachedResult } from './resultCache';
+import { recordUsage, checkBudget, estimateRequestCost } from './usageMeter';
+import { logRequest } from './requestLog';
+import { getGenerationSettings, type GenerationSettings } from './generationSettings';
+import { createModelProxy, resizeImageFile, restoreFullResolution, scaleRect, type ModelProxy } from './largeImage';
+import { DETECTION_PROMPT, DETECTION_SCHEMA, toDetectedObjects } from './objectDetection';
+import { buildEnhancementPrompt, ENHANCEMENT_SCHEMA, toEnhancedPrompt, type EnhanceablePromptType } from './promptEnhancer';
+import { SUGGESTION_PROMPT, SUGGESTION_SCHEMA, toSuggestionSet, getCachedSuggestions, cacheSuggestions, type PromptSuggestionSet } from './promptSuggestions';
+import type { DetectedObject } from '../types';
+
+// How far the close-up context crop extends beyond a Magic Edit selection, relative to its size.
+const EDIT_CONTEXT_MARGIN = 0.5;
+
+export interface OperationOptions {
+    /** Cancels the operation, including any pending retries. */
+    signal?: AbortSignal;
+    /** Index of the variant being generated when several are requested at once. */
+    variant?: number;
+    /** Soft edge, in pixels, used when compositing a localized result back onto the source. */
+    featherRadius?: number;
+    /** For Magic Edit, also send a close-up crop around the selection (default true). */
+    includeContext?: boolean;
+    /** Regenerate results whose aspect ratio or composition drifted from the source. */
+    retryOnDrift?: boolean;
+    /** Called when the returned result still drifted from the source after any retries; `variant` is 0 outside variant runs. */
+    onDrift?: (report: DriftReport, variant: number) => void;
+    /** Longest side, in pixels, of the proxy image sent to the model (default MODEL_MAX_DIMENSION). */
+    maxModelDimension?: number;
+    /** Skip cached results and always call the model; the new result still replaces the cached one. */
+    forceRegenerate?: boolean;
+    /** Model and sampling settings; defaults to the saved settings for the operation. */
+    settings?: GenerationSettings;
+}
+
+// How many extra attempts `retryOnDrift` may spend on a drifted result.
+const MAX_DRIFT_RETRIES = 2;
+
+export const MAX_VARIANTS = 4;
+
+export interface VariantResult {
+    imageUrl: string;
+    /** Index passed to `generate` for this variant. */
+    variant: number;
+}
+
+/**
+ * Runs the same operation several times in parallel to produce alternative results.
+ * Variants that fail are dropped; the call only fails if every variant failed
+ * (rethrowing the first error) or the operation was cancelled.
+ * @param operation The operation being run, used to check the whole run against the budget.
+ * @param count How many variants to request, capped at MAX_VARIANTS.
+ * @param generate Produces one variant; receives the variant index.
+ * @returns A promise that resolves to the successful variants, in order.
+ */
+export const generateVariants = async (
+    operation: ImageOperation,
+    count: number,
+    generate: (variant: number) => Promise<string>,
+): Promise<VariantResult[]> => {
+    const total = Math.max(1, Math.min(MAX_VARIANTS, Math.round(count)));
+    // The variants start together, before any of them is metered, so the per-request
+    // check alone would let the run overshoot the hard limit.
+    const budget = checkBudget(estimateOperationCost(operation, total));
+    if (budget.level === 'block') {
+        throw new BudgetExceededError(budget.message!);
+    }
+    console.log(`Generating ${total} variant(s)...`);
+    const results = await Promise.allSettled(Array.from({ length: total }, (_, i) => generate(i)));
+
+    const images = results.flatMap((result, variant) => result.status === 'fulfilled' ? [{ imageUrl: result.value, variant }] : []);
+    const failures = results.flatMap(result => result.status === 'rejected' ? [result.reason] : []);
+    const cancelled = failures.find(isCancellation);
+    if (cancelled) throw cancelled;
+    if (images.length === 0) throw failures[0];
+    if (failures.length > 0) {
+        console.warn(`${failures.length} of ${total} variant(s) failed.`, failures);
+    }
+    return images;
+};
+
+/**
+ * Estimates the cost in USD of running `count` operations with the active provider
+ * and the saved settings, e.g. to check a batch against the usage budget before it starts.
+ */
+export const estimateOperationCost = (operation: ImageOperation, count: number = 1): number =>
+    estimateRequestCost(resolveModel(getImageEditProvider(), { settings: getGenerationSettings(operation) })) * count;
+
+const countInputImages = (request: ImageGenerationRequest | AnalysisRequest): number =>
+    1 + ('mask' in request && request.mask ? 1 : 0) + ('context' in request && request.context ? 1 : 0)
+    + ('product' in request && request.product ? 1 : 0);
+
+// One metered request to the provider; every attempt, including failed ones, is
+// recorded in the usage meter and the request inspector.
+const callMetered = async <T extends { usage?: TokenUsage }>(
+    provider: ImageEditProvider,
+    request: ImageGenerationRequest | AnalysisRequest,
+    call: (onResponse: (details: ProviderResponseDetails) => void) => Promise<T>,
+): Promise<T> => {
+    const logEntry = logRequest(request, provider);
+    const startedAt = performance.now();
+    const meterEntry = (outcome: 'success' | 'failed') => ({
+        operation: request.operation,
+        provider: provider.id,
+        model: resolveModel(provider, request),
+        outcome,
+        inputImages: countInputImages(request),
+        outputImages: outcome === 'success' && !isAnalysisOperation(request.operation) ? 1 : 0,
+        latencyMs: Math.round(performance.now() - startedAt),
     });
-    
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    
-    const mimeType = mimeMatch[1];
-    const data = arr[1];
-    return { inlineData: { mimeType, data } };
+    try {
+        const result = await call(logEntry.setResponse);
+        recordUsage({ ...meterEntry('success'), usage: result.usage });
+        logEntry.complete('success');
+        return result;
+    } catch (err) {
+        if (isCancellation(err)) {
+            logEntry.complete('cancelled');
+        } else {
+            recordUsage(meterEntry('failed'));
+            logEntry.complete('failed', err);
+        }
+        throw err;
+    }
+};
+
+const checkRequestBudget = (provider: ImageEditProvider, request: ImageGenerationRequest | AnalysisRequest): void => {
+    const budget = checkBudget(estimateRequestCost(resolveModel(provider, request)));
+    if (budget.level === 'block') {
+        throw new BudgetExceededError(budget.message!);
+    }
 };
 
-const handleApiResponse = (
-    response: GenerateContentResponse,
-    context: string // e.g., "edit", "filter", "adjustment"
-): string => {
-    // 1. Check for prompt blocking first
-    if (response.promptFeedback?.blockReason) {
-        const { blockReason, blockReasonMessage } = response.promptFeedback;
-        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
+// Every operation goes through the active provider, retrying transient failures
+// (rate limits, network errors, empty replies) with backoff. Identical requests
+// are answered from the result cache unless `forceRegenerate` is set, and new
+// requests are refused once they would exceed the budget's hard limit.
+const runProvider = async (request: ImageGenerationRequest, forceRegenerate: boolean): Promise<string> => {
+    const provider = getImageEditProvider();
+    const key = await computeResultKey(request, provider).catch((error) => {
+        console.warn('Could not compute the result cache key.', error);
+        return null;
+    });
+    if (key && !forceRegenerate) {
+        const cached = await getCachedResult(key);
+        if (cached) {
+            console.log(`Using cached ${request.operation} result.`);
+            logRequest(request, provider, 'cached');
+            recordUsage({
+                operation: request.operation,
+                provider: provider.id,
+                model: resolveModel(provider, request),
+                outcome: 'cached',
+                inputImages: 0,
+                outputImages: 0,
+                latencyMs: 0,
+            });
+            return cached;
+        }
     }
+    throwIfAborted(request.signal);
 
-    // 2. Try to find the image part
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+    checkRequestBudget(provider, request);
 
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        console.log(`Received image data (${mimeType}) for ${context}`);
-        return `data:${mimeType};base64,${data}`;
+    const { imageUrl } = await withRetry(
+        () => callMetered(provider, request, onResponse => provider.generateImage({ ...request, onResponse })),
+        { signal: request.signal },
+    );
+    if (key) {
+        void putCachedResult(key, imageUrl);
     }
+    return imageUrl;
+};
 
-    // 3. If no image, check for other reasons
-    const finishReason = response.candidates?.[0]?.finishReason;
-    if (finishReason && finishReason !== 'STOP') {
-        const errorMessage = `Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
+const ANALYSIS_NAMES: Record<AnalysisOperation, string> = {
+    detect: 'object detection',
+    suggest: 'prompt suggestions',
+    enhance: 'prompt enhancement',
+};
+
+// Analysis replies are not kept in the result cache; callers that reuse them,
+// such as prompt suggestions, keep their own.
+const runAnalysis = async (request: AnalysisRequest): Promise<unknown> => {
+    const provider = getImageEditProvider();
+    const analyzeImage = provider.analyzeImage;
+    if (!analyzeImage) {
+        throw new UnsupportedOperationError(ANALYSIS_NAMES[request.operation], provider.label);
     }
-    
-    const textFeedback = response.text?.trim();
-    const errorMessage = `The AI model did not return an image for the ${context}. ` + 
-        (textFeedback 
-            ? `The model responded with text: "${textFeedback}"`
-            : "This can happen due to safety filters or if the request is too complex. Please try rephrasing your prompt to be more direct.");
-
-    console.error(`Model response did not contain an image part for ${context}.`, { response });
-    throw new Error(errorMessage);
+    checkRequestBudget(provider, request);
+
+    const { data } = await withRetry(
+        () => callMetered(provider, request, onResponse => analyzeImage({ ...request, onResponse })),
+        { signal: request.signal },
+    );
+    return data;
+};
+
+// Runs the provider and checks the result against the source: it is resampled
+// to the source dimensions, and drifted results are optionally regenerated.
+const runChecked = async (operationRequest: ImageGenerationRequest, options: OperationOptions): Promise<string> => {
+    const request = { ...operationRequest, settings: options.settings ?? getGenerationSettings(operationRequest.operation) };
+    const attempts = options.retryOnDrift ? MAX_DRIFT_RETRIES + 1 : 1;
+    for (let attempt = 1; ; attempt++) {
+        // A drifted result must not be answered from the cache again.
+        const generatedImageUrl = await runProvider(request, !!options.forceRegenerate || attempt > 1);
+        const { imageUrl, report } = await normalizeResult(request.image, generatedImageUrl, {
+            // Uncrop fills transparent padding, which cannot be compared structurally.
+            checkContent: request.operation !== 'uncrop',
+        });
+        if (!report.flagged) {
+            return imageUrl;
+        }
+        if (attempt >= attempts) {
+            options.onDrift?.(report, request.variant ?? 0);
+            return imageUrl;
+        }
+        throwIfAborted(request.signal);
+        console.warn(`Retrying ${request.operation} after drift (attempt ${attempt + 1} of ${attempts}).`);
+    }
+};
+
+// Maps a result generated from the proxy back to full resolution. Localized
+// results only need their region restored, since compositing keeps the
+// original everywhere else.
+const toFullResolution = async (original: File, proxy: ModelProxy, resultUrl: string, region?: CompositeRegion): Promise<string> => {
+    if (proxy.scale === 1) {
+        return resultUrl;
+    }
+    const bounds = region ? await findRegionBounds(region, proxy.fullSize) : undefined;
+    if (bounds === null) {
+        return resultUrl;
+    }
+    return restoreFullResolution(original, proxy, resultUrl, bounds);
 };
 
 /**
  * Generates an edited image using generative AI based on a text prompt and a specific point.
  * @param originalImage The original image file.
  * @param userPrompt The text prompt describing the desired edit.
- * @param crop The pixel crop selection for the edit area.
+ * @param crop The selection for the edit area, in the image's natural pixels.
+ * @param options Optional settings, such as an abort signal. Set `includeContext: false` to skip the close-up crop.
  * @returns A promise that resolves to the data URL of the edited image.
  */
 export const generateEditedImage = async (
     originalImage: File,
     userPrompt: string,
-    crop: { x: number; y: number; width: number; height: number; }
+    crop: { x: number; y: number; width: number; height: number; },
+    options: OperationOptions = {},
 ): Promise<string> => {
-    console.log('Starting generative edit in selection:', crop);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    
-    const originalImagePart = await fileToPart(originalImage);
+    const proxy = await createModelProxy(originalImage, options.maxModelDimension);
+    const selection = clampRect(crop, proxy.fullSize);
+    console.log(`Starting generative edit in selection of ${proxy.fullSize.width}x${proxy.fullSize.height} image:`, selection);
+
+    // The model sees the proxy, so the prompt describes everything in proxy pixels.
+    const imageSize = proxy.size;
+    const proxySelection = clampRect(scaleRect(selection, proxy.scale), imageSize);
+
+    let context: File | null = null;
+    let contextDescription = '';
+    if (options.includeContext !== false) {
+        // Cut the close-up from the original so it carries full-resolution detail, bounded like the proxy.
+        const contextRect = expandRect(proxySelection, EDIT_CONTEXT_MARGIN, imageSize);
+        const fullContext = await cropImageFile(originalImage, scaleRect(contextRect, 1 / proxy.scale), 'edit-context.png');
+        context = (await createModelProxy(fullContext, options.maxModelDimension)).file;
+        contextDescription = `
+Context Close-up: The second image is a close-up of the full image covering top-left corner (x: ${contextRect.x}, y: ${contextRect.y}) and dimensions (width: ${contextRect.width}px, height: ${contextRect.height}px). It contains the selection plus its surroundings. Use it only to see fine detail; your output must be the complete first image.`;
+    }
+    throwIfAborted(options.signal);
+
     const prompt = `You are an expert generative photo editor AI. The user has selected a specific area of an image to modify. Your task is to fulfill the user's request within that bounding box, blending the result seamlessly with the rest of the photo.
 User Request: "${userPrompt}"
-Edit Location: Perform the edit within the bounding box defined by top-left corner (x: ${Math.round(crop.x)}, y: ${Math.round(crop.y)}) and dimensions (width: ${Math.round(crop.width)}px, height: ${Math.round(crop.height)}px).
+Image Size: The first image is ${imageSize.width}px wide and ${imageSize.height}px tall. All coordinates are in pixels of this image, measured from its top-left corner.
+Edit Location: Perform the edit within the bounding box defined by top-left corner (x: ${proxySelection.x}, y: ${proxySelection.y}) and dimensions (width: ${proxySelection.width}px, height: ${proxySelection.height}px).${contextDescription}
 
 Editing Guidelines:
 - If the user asks to 'remove' something, intelligently fill the selected area based on the surrounding context.
@@ -95,16 +294,82 @@ Safety & Ethics Policy:
 - You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
 
 Output: Return ONLY the final edited image. Do not return text.`;
-    const textPart = { text: prompt };
 
-    console.log('Sending image and prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
-    });
-    console.log('Received response from model.', response);
+    const generatedImageUrl = await runChecked({
+        operation: 'edit',
+        image: proxy.file,
+        prompt,
+        userPrompt,
+        selection: proxySelection,
+        context,
+        variant: options.variant,
+        signal: options.signal,
+    }, options);
+
+    // The model tends to shift the whole frame; keep everything outside the selection bit-identical.
+    const region: CompositeRegion = { kind: 'rect', rect: selection };
+    const fullResolutionUrl = await toFullResolution(originalImage, proxy, generatedImageUrl, region);
+    return compositeIntoRegion(originalImage, fullResolutionUrl, region, options.featherRadius);
+};
 
-    return handleApiResponse(response, 'edit');
+/**
+ * Inserts a product into a scene within a target region, matching the scene's
+ * lighting, perspective and scale.
+ * @param sceneImage The photo to place the product in.
+ * @param productImage The product image, ideally a cutout on a transparent or plain background.
+ * @param productName A short name for the product, used in the prompt.
+ * @param region The target area, in the scene's natural pixels.
+ * @param instructions Optional notes on placement, e.g. "standing on the table, turned slightly left".
+ * @param options Optional settings, such as an abort signal.
+ * @returns A promise that resolves to the data URL of the composed image.
+ */
+export const generatePlacedProduct = async (
+    sceneImage: File,
+    productImage: File,
+    productName: string,
+    region: { x: number; y: number; width: number; height: number; },
+    instructions: string,
+    options: OperationOptions = {},
+): Promise<string> => {
+    const proxy = await createModelProxy(sceneImage, options.maxModelDimension);
+    const selection = clampRect(region, proxy.fullSize);
+    console.log(`Starting product placement of "${productName}" in region of ${proxy.fullSize.width}x${proxy.fullSize.height} image:`, selection);
+
+    const imageSize = proxy.size;
+    const proxySelection = clampRect(scaleRect(selection, proxy.scale), imageSize);
+    const product = (await createModelProxy(productImage, options.maxModelDimension)).file;
+    throwIfAborted(options.signal);
+
+    const notes = instructions.trim();
+    const prompt = `You are an expert product photographer and compositor. You are given two images: the first is a scene photo, the second is a product ("${productName}"). Insert the product into the scene so the result looks like a real photograph of the product in that place.
+Image Size: The scene is ${imageSize.width}px wide and ${imageSize.height}px tall. All coordinates are in pixels of the scene, measured from its top-left corner.
+Placement Area: Place the product within the bounding box defined by top-left corner (x: ${proxySelection.x}, y: ${proxySelection.y}) and dimensions (width: ${proxySelection.width}px, height: ${proxySelection.height}px).${notes ? `
+Placement Notes: "${notes}"` : ''}
+
+Compositing Guidelines:
+- Keep the product itself faithful to the second image: its shape, colors, materials, labels, logos and text must not change.
+- Ignore the product image's background; only the product goes into the scene.
+- Scale the product plausibly for the scene and match the scene's perspective and camera angle.
+- Match the scene's lighting direction, color temperature and softness, and add realistic contact shadows and reflections where the product meets surfaces.
+- The area outside the bounding box must remain completely unchanged.
+
+Output: Return ONLY the final composed scene image. Do not return text.`;
+
+    const generatedImageUrl = await runChecked({
+        operation: 'place',
+        image: proxy.file,
+        prompt,
+        userPrompt: notes ? `${productName}: ${notes}` : productName,
+        selection: proxySelection,
+        product,
+        variant: options.variant,
+        signal: options.signal,
+    }, options);
+
+    // As with Magic Edit, only the target region may change.
+    const compositeRegion: CompositeRegion = { kind: 'rect', rect: selection };
+    const fullResolutionUrl = await toFullResolution(sceneImage, proxy, generatedImageUrl, compositeRegion);
+    return compositeIntoRegion(sceneImage, fullResolutionUrl, compositeRegion, options.featherRadius);
 };
 
 /**
@@ -112,23 +377,20 @@ Output: Return ONLY the final edited image. Do not return text.`;
  * @param originalImage The original image file.
  * @param filterPrompt The text prompt describing the desired filter.
  * @param maskImage An optional mask file. If provided, the filter is applied only to the masked area.
+ * @param options Optional settings, such as an abort signal.
  * @returns A promise that resolves to the data URL of the filtered image.
  */
 export const generateFilteredImage = async (
     originalImage: File,
     filterPrompt: string,
     maskImage: File | null,
+    options: OperationOptions = {},
 ): Promise<string> => {
     console.log(`Starting filter generation: ${filterPrompt}`, maskImage ? 'with mask' : 'globally');
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    
-    const originalImagePart = await fileToPart(originalImage);
-    const parts: ({ inlineData: { mimeType: string; data: string; } } | { text: string })[] = [originalImagePart];
+
     let prompt: string;
 
     if (maskImage) {
-        const maskPart = await fileToPart(maskImage);
-        parts.push(maskPart);
         prompt = `You are an expert photo editor AI. You will be given two images and a user request. The first image is the original photo to be edited. The second image is a black and white mask. Your task is to apply the stylistic filter described in the user's request ONLY to the white areas of the mask on the original photo. The areas of the original photo corresponding to black areas on the mask must remain completely unchanged. Blend the edit seamlessly at the edges. The final output must be only the edited image, with the same dimensions as the original.
 Filter Request: "${filterPrompt}"
 
@@ -147,17 +409,24 @@ Safety & Ethics Policy:
 
 Output: Return ONLY the final filtered image. Do not return text.`;
     }
-    
-    parts.push({ text: prompt });
 
-    console.log('Sending image, filter prompt, and mask (if any) to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts },
-    });
-    console.log('Received response from model for filter.', response);
-    
-    return handleApiResponse(response, 'filter');
+    const proxy = await createModelProxy(originalImage, options.maxModelDimension);
+    const proxyMask = maskImage ? await resizeImageFile(maskImage, proxy.size, 'mask.png') : null;
+    const generatedImageUrl = await runChecked({
+        operation: 'filter',
+        image: proxy.file,
+        prompt,
+        userPrompt: filterPrompt,
+        mask: proxyMask,
+        variant: options.variant,
+        signal: options.signal,
+    }, options);
+
+    const region: CompositeRegion | undefined = maskImage ? { kind: 'mask', mask: maskImage } : undefined;
+    const fullResolutionUrl = await toFullResolution(originalImage, proxy, generatedImageUrl, region);
+    return region
+        ? compositeIntoRegion(originalImage, fullResolutionUrl, region, options.featherRadius)
+        : fullResolutionUrl;
 };
 
 /**
@@ -165,23 +434,20 @@ Output: Return ONLY the final filtered image. Do not return text.`;
  * @param originalImage The original image file.
  * @param adjustmentPrompt The text prompt describing the desired adjustment.
  * @param maskImage An optional mask file. If provided, the adjustment is applied only to the masked area.
+ * @param options Optional settings, such as an abort signal.
  * @returns A promise that resolves to the data URL of the adjusted image.
  */
 export const generateAdjustedImage = async (
     originalImage: File,
     adjustmentPrompt: string,
     maskImage: File | null,
+    options: OperationOptions = {},
 ): Promise<string> => {
     console.log(`Starting adjustment generation: ${adjustmentPrompt}`, maskImage ? 'with mask' : 'globally');
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    
-    const originalImagePart = await fileToPart(originalImage);
-    const parts: ({ inlineData: { mimeType: string; data: string; } } | { text: string })[] = [originalImagePart];
+
     let prompt: string;
 
     if (maskImage) {
-        const maskPart = await fileToPart(maskImage);
-        parts.push(maskPart);
         prompt = `You are an expert photo editor AI. You will be given two images and a user request. The first image is the original photo to be edited. The second image is a black and white mask. Your task is to apply the adjustment described in the user's request ONLY to the white areas of the mask on the original photo. The areas of the original photo corresponding to black areas on the mask must remain completely unchanged. Blend the edit seamlessly at the edges. The final output must be only the edited image, with the same dimensions as the original.
 User Request: "${adjustmentPrompt}"
 
@@ -207,17 +473,24 @@ Safety & Ethics Policy:
 
 Output: Return ONLY the final adjusted image. Do not return text.`;
     }
-    
-    parts.push({ text: prompt });
 
-    console.log('Sending image, adjustment prompt, and mask (if any) to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts },
-    });
-    console.log('Received response from model for adjustment.', response);
-    
-    return handleApiResponse(response, 'adjustment');
+    const proxy = await createModelProxy(originalImage, options.maxModelDimension);
+    const proxyMask = maskImage ? await resizeImageFile(maskImage, proxy.size, 'mask.png') : null;
+    const generatedImageUrl = await runChecked({
+        operation: 'adjust',
+        image: proxy.file,
+        prompt,
+        userPrompt: adjustmentPrompt,
+        mask: proxyMask,
+        variant: options.variant,
+        signal: options.signal,
+    }, options);
+
+    const region: CompositeRegion | undefined = maskImage ? { kind: 'mask', mask: maskImage } : undefined;
+    const fullResolutionUrl = await toFullResolution(originalImage, proxy, generatedImageUrl, region);
+    return region
+        ? compositeIntoRegion(originalImage, fullResolutionUrl, region, options.featherRadius)
+        : fullResolutionUrl;
 };
 
 /**
@@ -225,12 +498,14 @@ Output: Return ONLY the final adjusted image. Do not return text.`;
  * @param originalImage The original image file.
  * @param targetWidth The desired final width of the image.
  * @param targetHeight The desired final height of the image.
+ * @param options Optional settings, such as an abort signal.
  * @returns A promise that resolves to the data URL of the uncropped image.
  */
 export const generateUncroppedImage = async (
     originalImage: File,
     targetWidth: number,
     targetHeight: number,
+    options: OperationOptions = {},
 ): Promise<string> => {
     console.log(`Starting generative uncrop to dimensions: ${targetWidth}x${targetHeight}`);
     
@@ -238,6 +513,7 @@ export const generateUncroppedImage = async (
     const imageWithPadding = await new Promise<File>((resolve, reject) => {
         const img = new Image();
         img.onload = () => {
+            URL.revokeObjectURL(img.src);
             const canvas = document.createElement('canvas');
             canvas.width = targetWidth;
             canvas.height = targetHeight;
@@ -246,12 +522,15 @@ export const generateUncroppedImage = async (
                 return reject(new Error('Could not get canvas context.'));
             }
 
-            // Calculate position to center the original image
-            const x = (targetWidth - img.width) / 2;
-            const y = (targetHeight - img.height) / 2;
+            // Calculate size and position to center the original image, shrinking it if the target was capped
+            const fit = Math.min(1, targetWidth / img.width, targetHeight / img.height);
+            const width = Math.round(img.width * fit);
+            const height = Math.round(img.height * fit);
+            const x = (targetWidth - width) / 2;
+            const y = (targetHeight - height) / 2;
 
             // Draw the original image onto the center of the larger canvas
-            ctx.drawImage(img, x, y);
+            ctx.drawImage(img, x, y, width, height);
 
             // Export the canvas as a PNG file
             canvas.toBlob((blob) => {
@@ -261,14 +540,15 @@ export const generateUncroppedImage = async (
                 resolve(new File([blob], 'uncrop-base.png', { type: 'image/png' }));
             }, 'image/png');
         };
-        img.onerror = reject;
+        img.onerror = () => {
+            URL.revokeObjectURL(img.src);
+            reject(new Error('Could not load image.'));
+        };
         img.src = URL.createObjectURL(originalImage);
     });
 
-    // Step 2: Send to Gemini API
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    
-    const imagePart = await fileToPart(imageWithPadding);
+    // Step 2: Send to the image provider
+    throwIfAborted(options.signal);
     const prompt = `You are an expert in photorealistic outpainting. You have been given an image that has transparent areas around a central, existing photo. Your task is to creatively and seamlessly fill in ONLY the transparent areas.
     
 Guidelines:
@@ -278,14 +558,103 @@ Guidelines:
 - Do not modify any pixels of the original, non-transparent image content.
 
 Output: Return ONLY the final, fully filled-in image. Do not return text or other content.`;
-    const textPart = { text: prompt };
 
-    console.log('Sending padded image and uncrop prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [imagePart, textPart] },
+    const proxy = await createModelProxy(imageWithPadding, options.maxModelDimension);
+    const generatedImageUrl = await runChecked({
+        operation: 'uncrop',
+        image: proxy.file,
+        prompt,
+        userPrompt: `expand to ${targetWidth}x${targetHeight}`,
+        variant: options.variant,
+        signal: options.signal,
+    }, options);
+
+    return toFullResolution(imageWithPadding, proxy, generatedImageUrl);
+};
+
+/**
+ * Finds the prominent objects in an image, with their boxes and, where the
+ * model provides them, segmentation masks.
+ * @param image The image to analyse.
+ * @param options Optional settings, such as an abort signal.
+ * @returns A promise that resolves to the detected objects in the image's natural pixels.
+ */
+export const detectObjects = async (
+    image: File,
+    options: Pick<OperationOptions, 'signal' | 'maxModelDimension'> = {},
+): Promise<DetectedObject[]> => {
+    console.log('Starting object detection.');
+    // Boxes come back normalised, so the proxy's scale does not matter here.
+    const proxy = await createModelProxy(image, options.maxModelDimension);
+    const data = await runAnalysis({
+        operation: 'detect',
+        image: proxy.file,
+        prompt: DETECTION_PROMPT,
+        userPrompt: 'detect objects',
+        responseSchema: DETECTION_SCHEMA,
+        signal: options.signal,
+    });
+    throwIfAborted(options.signal);
+    return toDetectedObjects(data, image);
+};
+
+/**
+ * Describes the image and suggests edit, adjustment and filter prompts for it.
+ * Suggestions are cached by image content, so returning to an image is free.
+ * @param image The image to suggest prompts for.
+ * @param options Optional abort signal and model proxy size.
+ * @returns A promise that resolves to the suggestions.
+ */
+export const suggestPrompts = async (
+    image: File,
+    options: Pick<OperationOptions, 'signal' | 'maxModelDimension'> = {},
+): Promise<PromptSuggestionSet> => {
+    const imageHash = await hashFile(image);
+    const cached = getCachedSuggestions(imageHash);
+    if (cached) {
+        console.log('Using cached prompt suggestions.');
+        return cached;
+    }
+    console.log('Requesting prompt suggestions.');
+    const proxy = await createModelProxy(image, options.maxModelDimension);
+    const data = await runAnalysis({
+        operation: 'suggest',
+        image: proxy.file,
+        prompt: SUGGESTION_PROMPT,
+        userPrompt: 'suggest prompts',
+        responseSchema: SUGGESTION_SCHEMA,
+        signal: options.signal,
     });
-    console.log('Received response from model for uncrop.', response);
+    throwIfAborted(options.signal);
+    const suggestions = toSuggestionSet(data);
+    cacheSuggestions(imageHash, suggestions);
+    return suggestions;
+};
 
-    return handleApiResponse(response, 'uncrop');
-};
\ No newline at end of file
+/**
+ * Rewrites a short adjustment or filter prompt into a detailed instruction.
+ * @param prompt The user's prompt.
+ * @param type Whether the prompt is for an adjustment or a filter.
+ * @param image The photo to tailor the rewrite to, or null to send the prompt alone.
+ * @param options Optional abort signal and model proxy size.
+ * @returns A promise that resolves to the enhanced prompt.
+ */
+export const enhancePrompt = async (
+    prompt: string,
+    type: EnhanceablePromptType,
+    image: File | null,
+    options: Pick<OperationOptions, 'signal' | 'maxModelDimension'> = {},
+): Promise<string> => {
+    console.log(`Enhancing ${type} prompt: "${prompt}"`);
+    const proxy = image ? await createModelProxy(image, options.maxModelDimension) : null;
+    const data = await runAnalysis({
+        operation: 'enhance',
+        image: proxy?.file ?? null,
+        prompt: buildEnhancementPrompt(prompt, type, !!proxy),
+        userPrompt: prompt,
+        responseSchema: ENHANCEMENT_SCHEMA,
+        signal: options.signal,
+    });
+    throwIfAborted(options.signal);
+    return toEnhancedPrompt(data);
+};
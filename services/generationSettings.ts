@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageOperation } from './imageProvider';
+
+/*
+ * Model and generation settings, chosen separately for each operation type in
+ * Settings and kept in localStorage. The settings used for a result are stored
+ * with its history step, so a good result can be reproduced later.
+ */
+
+const SETTINGS_STORAGE_KEY = 'pixelshop-generation-settings';
+
+export const DEFAULT_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+/** Models offered as suggestions; any other model id can be typed in. */
+export const SUGGESTED_IMAGE_MODELS = ['gemini-2.5-flash-image-preview', 'gemini-2.5-flash-image'];
+
+export const SAFETY_CATEGORIES = ['harassment', 'hateSpeech', 'sexuallyExplicit', 'dangerousContent'] as const;
+export type SafetyCategory = typeof SAFETY_CATEGORIES[number];
+
+/** 'default' leaves the category at the model's own default threshold. */
+export type SafetyThreshold = 'default' | 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+export const SAFETY_THRESHOLDS: SafetyThreshold[] = ['default', 'BLOCK_NONE', 'BLOCK_ONLY_HIGH', 'BLOCK_MEDIUM_AND_ABOVE', 'BLOCK_LOW_AND_ABOVE'];
+
+export interface GenerationSettings {
+    model: string;
+    /** Sampling temperature (0-2); null uses the model default. */
+    temperature: number | null;
+    /** Fixed seed for repeatable sampling; null picks a random one per request. Variants use seed + variant index. */
+    seed: number | null;
+    safety: Record<SafetyCategory, SafetyThreshold>;
+}
+
+export type OperationSettings = Record<ImageOperation, GenerationSettings>;
+
+/** The operation and settings that produced a history step. */
+export interface GenerationRecord {
+    operation: ImageOperation;
+    settings: GenerationSettings;
+}
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+    model: DEFAULT_IMAGE_MODEL,
+    temperature: null,
+    seed: null,
+    safety: { harassment: 'default', hateSpeech: 'default', sexuallyExplicit: 'default', dangerousContent: 'default' },
+};
+
+const OPERATIONS: ImageOperation[] = ['edit', 'filter', 'adjust', 'uncrop', 'place'];
+
+const listeners = new Set<() => void>();
+
+// Fills in anything missing from stored or imported settings, e.g. after new fields were added.
+export const normalizeGenerationSettings = (settings: Partial<GenerationSettings> | undefined): GenerationSettings => ({
+    ...DEFAULT_GENERATION_SETTINGS,
+    ...settings,
+    model: settings?.model?.trim() || DEFAULT_IMAGE_MODEL,
+    safety: { ...DEFAULT_GENERATION_SETTINGS.safety, ...settings?.safety },
+});
+
+export const getOperationSettings = (): OperationSettings => {
+    let stored: Partial<Record<ImageOperation, Partial<GenerationSettings>>> = {};
+    try {
+        stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? '{}');
+    } catch (error) {
+        console.error('Failed to read generation settings from localStorage', error);
+    }
+    return Object.fromEntries(
+        OPERATIONS.map(operation => [operation, normalizeGenerationSettings(stored[operation])]),
+    ) as OperationSettings;
+};
+
+export const getGenerationSettings = (operation: ImageOperation): GenerationSettings =>
+    getOperationSettings()[operation];
+
+export const setGenerationSettings = (operation: ImageOperation, settings: GenerationSettings): void => {
+    const next = { ...getOperationSettings(), [operation]: normalizeGenerationSettings(settings) };
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+        console.error('Failed to save generation settings to localStorage', error);
+    }
+    listeners.forEach(listener => listener());
+};
+
+export const resetOperationSettings = (): void => {
+    try {
+        localStorage.removeItem(SETTINGS_STORAGE_KEY);
+    } catch (error) {
+        console.error('Failed to reset generation settings in localStorage', error);
+    }
+    listeners.forEach(listener => listener());
+};
+
+/** A one-line summary, e.g. "gemini-2.5-flash-image-preview · temperature 0.4 · seed 7". */
+export const describeGenerationSettings = (settings: GenerationSettings): string => {
+    const parts = [settings.model];
+    if (settings.temperature !== null) parts.push(`temperature ${settings.temperature}`);
+    if (settings.seed !== null) parts.push(`seed ${settings.seed}`);
+    const customSafety = SAFETY_CATEGORIES.filter(category => settings.safety[category] !== 'default');
+    if (customSafety.length > 0) parts.push(`custom safety (${customSafety.length})`);
+    return parts.join(' · ');
+};
+
+/** Calls `listener` whenever settings are saved or reset; returns an unsubscribe function. */
+export const subscribeToGenerationSettings = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
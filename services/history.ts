@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { HistoryEntry, HistoryOperation } from '../types';
+import { getImageEditProvider, resolveModel, type PixelRect } from './imageProvider';
+import type { GenerationRecord } from './generationSettings';
+import { loadImage, createCanvas } from './imageUtils';
+import type { Size } from './coordinates';
+
+const THUMBNAIL_SIZE = 128;
+
+export const HISTORY_OPERATION_LABELS: Record<HistoryOperation, string> = {
+    upload: 'Original',
+    edit: 'Edit',
+    filter: 'Filter',
+    adjust: 'Adjustment',
+    uncrop: 'Uncrop',
+    place: 'Product',
+    crop: 'Crop',
+};
+
+/** What the caller knows about a new step; the rest is filled in when the entry is created. */
+export interface HistoryStep {
+    operation: HistoryOperation;
+    prompt?: string | null;
+    selection?: PixelRect | null;
+    mask?: File | null;
+    generation?: GenerationRecord | null;
+    durationMs?: number | null;
+}
+
+/** A new, unique id for a history step. */
+export const createHistoryId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Creates a history entry for a new image. The thumbnail is generated later.
+ * @param file The image the step produced.
+ * @param parentId The step it was made from, or null for an upload.
+ * @param step How the image was made.
+ * @returns The entry.
+ */
+export const createHistoryEntry = (file: File, parentId: string | null, step: HistoryStep): HistoryEntry => {
+    const now = Date.now();
+    const generation = step.generation ?? null;
+    return {
+        id: createHistoryId(),
+        parentId,
+        operation: step.operation,
+        file,
+        thumbnailUrl: null,
+        prompt: step.prompt?.trim() || null,
+        selection: step.selection ?? null,
+        mask: step.mask ?? null,
+        model: generation ? resolveModel(getImageEditProvider(), generation) : null,
+        generation,
+        createdAt: now,
+        durationMs: step.durationMs ?? null,
+    };
+};
+
+/** A short label for a step, e.g. `Filter: "vintage film"`. */
+export const describeHistoryEntry = (entry: HistoryEntry): string => {
+    const label = HISTORY_OPERATION_LABELS[entry.operation];
+    return entry.prompt ? `${label}: "${entry.prompt}"` : label;
+};
+
+/**
+ * Renders a small JPEG preview of a step's image for the history panel.
+ * @param file The step's image.
+ * @returns A promise that resolves to a data URL, and the image's natural size measured while decoding it.
+ */
+export const createHistoryThumbnail = async (file: File): Promise<{ thumbnailUrl: string; size: Size }> => {
+    const image = await loadImage(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const { canvas, ctx } = createCanvas(Math.max(1, Math.round(image.naturalWidth * scale)), Math.max(1, Math.round(image.naturalHeight * scale)));
+    // Transparent areas, such as uncrop padding, show as grey.
+    ctx.fillStyle = '#808080';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return {
+        thumbnailUrl: canvas.toDataURL('image/jpeg', 0.8),
+        size: { width: image.naturalWidth, height: image.naturalHeight },
+    };
+};
+
+/*
+ * History is a tree: every step records the step it was made from, and trying
+ * something new after an undo starts a branch instead of discarding the redo
+ * steps. The helpers below work on the flat list of every step.
+ */
+
+/**
+ * The steps from the upload down to the given step.
+ * @param entries Every step in the history.
+ * @param id The step to end at.
+ * @returns The path, starting with the upload; empty when the step is unknown.
+ */
+export const getHistoryPath = (entries: HistoryEntry[], id: string | null): HistoryEntry[] => {
+    const byId = new Map(entries.map(entry => [entry.id, entry]));
+    const path: HistoryEntry[] = [];
+    for (let entry = id ? byId.get(id) : undefined; entry; entry = entry.parentId ? byId.get(entry.parentId) : undefined) {
+        path.unshift(entry);
+    }
+    return path;
+};
+
+/** The steps nothing has been made from yet, i.e. the ends of each branch, oldest first. */
+export const getHistoryLeaves = (entries: HistoryEntry[]): HistoryEntry[] => {
+    const parents = new Set(entries.map(entry => entry.parentId));
+    return entries.filter(entry => !parents.has(entry.id));
+};
+
+/**
+ * The most recently created branch end at or below a step, which is where
+ * redo leads after jumping to that step.
+ * @param entries Every step in the history.
+ * @param id The step to search below.
+ * @returns The leaf's id.
+ */
+export const getLatestLeafId = (entries: HistoryEntry[], id: string): string => {
+    let latest: HistoryEntry | null = null;
+    for (const leaf of getHistoryLeaves(entries)) {
+        if (getHistoryPath(entries, leaf.id).some(entry => entry.id === id) && (!latest || leaf.createdAt >= latest.createdAt)) {
+            latest = leaf;
+        }
+    }
+    return latest?.id ?? id;
+};
+
+/**
+ * Where two steps' paths part: the number of leading steps they share.
+ * @param a The path to one step.
+ * @param b The path to the other.
+ * @returns The length of the shared prefix.
+ */
+export const getSharedPathLength = (a: HistoryEntry[], b: HistoryEntry[]): number => {
+    let shared = 0;
+    while (shared < a.length && shared < b.length && a[shared].id === b[shared].id) shared++;
+    return shared;
+};
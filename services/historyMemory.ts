@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { HistoryEntry } from '../types';
+import type { Size } from './coordinates';
+
+/*
+ * Bounds how many full-resolution history images are held in memory. Every
+ * step is autosaved to IndexedDB by the session store; once a step is saved and
+ * is no longer near the current one, its in-memory image is swapped for the
+ * copy read back from the database, which the browser keeps on disk. History
+ * navigation only needs the small thumbnails, so nothing visible changes.
+ */
+
+const LIMITS_STORAGE_KEY = 'pixelshop-history-memory';
+
+export interface HistoryMemoryLimits {
+    /** Steps before and after the current one, along the active branch, whose images stay in memory. */
+    stepsAroundCurrent: number;
+    /** The most memory, in megabytes, the decoded images kept in memory may use. The current image is always kept. */
+    maxMemoryMB: number;
+}
+
+export const DEFAULT_HISTORY_MEMORY_LIMITS: HistoryMemoryLimits = {
+    stepsAroundCurrent: 1,
+    maxMemoryMB: 256,
+};
+
+const listeners = new Set<() => void>();
+
+export const getHistoryMemoryLimits = (): HistoryMemoryLimits => {
+    try {
+        return { ...DEFAULT_HISTORY_MEMORY_LIMITS, ...JSON.parse(localStorage.getItem(LIMITS_STORAGE_KEY) ?? '{}') };
+    } catch (error) {
+        console.error('Failed to read the history memory limits from localStorage', error);
+        return DEFAULT_HISTORY_MEMORY_LIMITS;
+    }
+};
+
+export const setHistoryMemoryLimits = (limits: HistoryMemoryLimits): void => {
+    try {
+        localStorage.setItem(LIMITS_STORAGE_KEY, JSON.stringify({
+            stepsAroundCurrent: Math.max(0, Math.round(limits.stepsAroundCurrent)),
+            maxMemoryMB: Math.max(1, limits.maxMemoryMB),
+        }));
+    } catch (error) {
+        console.error('Failed to save the history memory limits to localStorage', error);
+    }
+    listeners.forEach(listener => listener());
+};
+
+/** Calls `listener` whenever the limits change; returns an unsubscribe function. */
+export const subscribeToHistoryMemoryLimits = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+// Decoded images take 4 bytes a pixel, several times their file size. Sizes are
+// measured when a step's thumbnail is made; until then the file size stands in.
+const decodedSizes = new Map<string, number>();
+
+/** Records the natural size of a step's image, measured while decoding it. */
+export const recordDecodedSize = (id: string, size: Size): void => {
+    decodedSizes.set(id, size.width * size.height * 4);
+};
+
+// A mask covers the same pixels as its image.
+const entrySize = (entry: HistoryEntry): number => {
+    const decoded = decodedSizes.get(entry.id);
+    return decoded === undefined ? entry.file.size + (entry.mask?.size ?? 0) : decoded * (entry.mask ? 2 : 1);
+};
+
+/**
+ * Picks the steps whose images should leave memory. Steps nearest the current
+ * one along the active branch are kept, up to the memory limit; steps on other
+ * branches are never kept.
+ * @param history Every history entry.
+ * @param activePath The entries of the active branch, from the upload.
+ * @param currentId The step being shown.
+ * @param isInMemory Whether an entry's images are still held in memory.
+ * @param limits The limits to apply.
+ * @returns The ids of the entries to move out of memory.
+ */
+export const selectEntriesToSpill = (
+    history: HistoryEntry[],
+    activePath: HistoryEntry[],
+    currentId: string | null,
+    isInMemory: (entry: HistoryEntry) => boolean,
+    limits: HistoryMemoryLimits,
+): string[] => {
+    const currentIndex = activePath.findIndex(entry => entry.id === currentId);
+    const distances = new Map(activePath.map((entry, index) => [entry.id, Math.abs(index - currentIndex)]));
+    const candidates = history
+        .filter(isInMemory)
+        .map(entry => ({ entry, distance: currentIndex < 0 ? Infinity : distances.get(entry.id) ?? Infinity }))
+        .sort((a, b) => a.distance - b.distance);
+
+    const budget = limits.maxMemoryMB * 1024 * 1024;
+    let used = 0;
+    const spill: string[] = [];
+    for (const { entry, distance } of candidates) {
+        const size = entrySize(entry);
+        if (distance === 0 || (distance <= limits.stepsAroundCurrent && used + size <= budget)) {
+            used += size;
+        } else {
+            spill.push(entry.id);
+        }
+    }
+    return spill;
+};
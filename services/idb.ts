@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Minimal promise wrappers around IndexedDB, shared by the modules that persist
+// data in the browser.
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted.'));
+    });
+};
+
+/**
+ * Opens (and creates or upgrades) a database.
+ * @param name The database name.
+ * @param version The schema version; bump it to run `upgrade` again.
+ * @param upgrade Creates object stores and indexes for the new version.
+ * @returns A promise that resolves to the open database.
+ */
+export const openDatabase = (
+    name: string,
+    version: number,
+    upgrade: (db: IDBDatabase, oldVersion: number) => void,
+): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            return reject(new Error('IndexedDB is not available in this browser.'));
+        }
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error(`Opening database "${name}" was blocked by another tab.`));
+    });
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+    const response = await fetch(dataUrl);
+    return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
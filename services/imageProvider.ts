@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+import type { GenerationSettings } from './generationSettings';
+
+export type ImageOperation = 'edit' | 'filter' | 'adjust' | 'uncrop' | 'place';
+
+/** Operations that ask the model about an image or prompt and get structured JSON back instead of a new image. */
+export type AnalysisOperation = 'detect' | 'suggest' | 'enhance';
+
+export type ProviderOperation = ImageOperation | AnalysisOperation;
+
+const ANALYSIS_OPERATIONS: readonly ProviderOperation[] = ['detect', 'suggest', 'enhance'];
+
+export const isAnalysisOperation = (operation: ProviderOperation | undefined): operation is AnalysisOperation =>
+    operation !== undefined && ANALYSIS_OPERATIONS.includes(operation);
+
+export interface PixelRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Everything a provider needs to produce one image for an operation.
+ * The `prompt` is the complete instruction text; the structured fields
+ * (`userPrompt`, `mask`, `selection`) are there for providers that do not
+ * work from natural language, such as the offline mock.
+ */
+export interface ImageGenerationRequest {
+    operation: ImageOperation;
+    image: File;
+    prompt: string;
+    userPrompt: string;
+    mask?: File | null;
+    selection?: PixelRect;
+    /** A close-up crop around the selection, sent alongside the full image for detail. */
+    context?: File | null;
+    /** The product cutout to insert into the selection, for product placement. */
+    product?: File | null;
+    /** Index of this request within a multi-variant run; lets deterministic providers vary their output. */
+    variant?: number;
+    /** Model and sampling settings for providers that support them. */
+    settings?: GenerationSettings;
+    /** Aborts the in-flight request; providers reject with OperationCancelledError. */
+    signal?: AbortSignal;
+    /** Receives what the model sent back, including responses that are then rejected as failures. */
+    onResponse?: (details: ProviderResponseDetails) => void;
+}
+
+/**
+ * A request for structured information, usually about an image. The reply
+ * must be JSON matching `responseSchema`, a JSON Schema object.
+ */
+export interface AnalysisRequest {
+    operation: AnalysisOperation;
+    /** Null for text-only requests, such as enhancing a prompt without the photo. */
+    image: File | null;
+    prompt: string;
+    userPrompt: string;
+    responseSchema: object;
+    signal?: AbortSignal;
+    onResponse?: (details: ProviderResponseDetails) => void;
+}
+
+export interface AnalysisResult {
+    /** The parsed JSON reply. */
+    data: unknown;
+    usage?: TokenUsage;
+}
+
+/** What the model sent back for a request, as shown in the request inspector. */
+export interface ProviderResponseDetails {
+    finishReason?: string;
+    blockReason?: string;
+    /** Any text the model returned alongside, or instead of, an image. */
+    text?: string;
+    /** Raw response metadata (usage, model version, safety ratings) without the image data. */
+    metadata?: unknown;
+}
+
+/** Token counts reported by the model for one request. */
+export interface TokenUsage {
+    promptTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+}
+
+export interface ImageGenerationResult {
+    /** Data URL of the generated image. */
+    imageUrl: string;
+    /** Present when the provider reports token usage. */
+    usage?: TokenUsage;
+}
+
+export interface ImageEditProvider {
+    id: string;
+    label: string;
+    /** Identifier of the default model, so cached results never cross models. */
+    model: string;
+    /** Whether the provider needs the API key from Settings. */
+    requiresApiKey?: boolean;
+    /** Whether the provider honours `settings` (model, temperature, seed, safety) on requests. */
+    configurable?: boolean;
+    /** Identifier of the model that answers analysis requests. */
+    analysisModel?: string;
+    generateImage: (request: ImageGenerationRequest) => Promise<ImageGenerationResult>;
+    /** Answers analysis requests; providers without it cannot detect objects. */
+    analyzeImage?: (request: AnalysisRequest) => Promise<AnalysisResult>;
+}
+
+/** The model that will actually handle a request on a provider. */
+export const resolveModel = (
+    provider: ImageEditProvider,
+    request: { operation?: ProviderOperation; settings?: GenerationSettings },
+): string => {
+    if (isAnalysisOperation(request.operation)) {
+        return provider.analysisModel ?? provider.model;
+    }
+    return provider.configurable && request.settings ? request.settings.model : provider.model;
+};
+
+export const imageEditProviders: ImageEditProvider[] = [geminiProvider, mockProvider];
+
+const DEFAULT_PROVIDER_ID = 'gemini';
+
+// Resolved once from the build environment (IMAGE_PROVIDER in .env.local) or
+// the `?provider=` query parameter, which makes offline demos a URL away.
+const resolveInitialProviderId = (): string => {
+    if (typeof window !== 'undefined') {
+        const fromQuery = new URLSearchParams(window.location.search).get('provider');
+        if (fromQuery) return fromQuery;
+    }
+    return process.env.IMAGE_PROVIDER || DEFAULT_PROVIDER_ID;
+};
+
+const findProvider = (id: string): ImageEditProvider | undefined =>
+    imageEditProviders.find(provider => provider.id === id);
+
+let activeProvider: ImageEditProvider = findProvider(resolveInitialProviderId()) ?? geminiProvider;
+
+export const getImageEditProvider = (): ImageEditProvider => activeProvider;
+
+export const setImageEditProvider = (id: string): void => {
+    const provider = findProvider(id);
+    if (!provider) {
+        throw new Error(`Unknown image provider "${id}". Available providers: ${imageEditProviders.map(p => p.id).join(', ')}.`);
+    }
+    console.log(`Switching image provider to ${provider.label}`);
+    activeProvider = provider;
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Loads a File or URL into a decoded HTMLImageElement.
+export const loadImage = (source: File | string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const objectUrl = typeof source === 'string' ? null : URL.createObjectURL(source);
+        const img = new Image();
+        img.onload = () => {
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+            resolve(img);
+        };
+        img.onerror = () => {
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+            reject(new Error('Could not load image.'));
+        };
+        img.src = objectUrl ?? (source as string);
+    });
+};
+
+// Creates a canvas with a 2D context, throwing if the browser refuses one.
+export const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get canvas context.');
+    }
+    return { canvas, ctx };
+};
+
+export const canvasToFile = (canvas: HTMLCanvasElement, filename: string, type: string = 'image/png', quality?: number): Promise<File> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (!blob) {
+                return reject(new Error('Canvas toBlob failed.'));
+            }
+            resolve(new File([blob], filename, { type }));
+        }, type, quality);
+    });
+};
+
+// SHA-256 of a file's bytes as a hex string, for keying caches by content.
+export const hashFile = async (file: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Copies a rectangle (in natural pixels) out of an image file into a new PNG file.
+export const cropImageFile = async (file: File, rect: { x: number; y: number; width: number; height: number }, filename: string): Promise<File> => {
+    const image = await loadImage(file);
+    const { canvas, ctx } = createCanvas(Math.max(1, Math.round(rect.width)), Math.max(1, Math.round(rect.height)));
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+    return canvasToFile(canvas, filename);
+};
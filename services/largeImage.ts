@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { PixelRect } from './imageProvider';
+import { clampRect, type Size } from './coordinates';
+import { loadImage, createCanvas, canvasToFile } from './imageUtils';
+
+/*
+ * Large photos never go to the model at full resolution. The model receives a
+ * proxy whose longest side is bounded, and its result is mapped back onto the
+ * full-resolution original: the result supplies the colours and any repainted
+ * content, while the original supplies the fine detail wherever the result has
+ * not changed the picture.
+ */
+
+/** Default longest side, in pixels, of the proxy image sent to the model. */
+export const MODEL_MAX_DIMENSION = 1536;
+
+// Rows processed at a time when restoring full resolution, to bound memory use.
+const STRIP_HEIGHT = 512;
+// Luminance change (0-255) between the proxy and the result at which the
+// original's detail starts to fade out, and where it is dropped entirely
+// because the model repainted the area.
+const DETAIL_FADE_START = 12;
+const DETAIL_FADE_END = 48;
+
+export interface ModelProxy {
+    /** The image to send to the model; the original itself when it is small enough. */
+    file: File;
+    size: Size;
+    fullSize: Size;
+    /** Proxy pixels per full-resolution pixel (1 when no proxy was needed). */
+    scale: number;
+}
+
+export const getProxySize = (size: Size, maxDimension: number = MODEL_MAX_DIMENSION): Size => {
+    const scale = Math.min(1, maxDimension / Math.max(size.width, size.height));
+    return {
+        width: Math.max(1, Math.round(size.width * scale)),
+        height: Math.max(1, Math.round(size.height * scale)),
+    };
+};
+
+export const scaleRect = (rect: PixelRect, scale: number): PixelRect => ({
+    x: rect.x * scale,
+    y: rect.y * scale,
+    width: rect.width * scale,
+    height: rect.height * scale,
+});
+
+// Downscales in halving steps, since a single large reduction with bilinear
+// smoothing skips most source pixels and aliases.
+const resample = (image: HTMLImageElement, size: Size): HTMLCanvasElement => {
+    let source: CanvasImageSource = image;
+    let width = image.naturalWidth;
+    let height = image.naturalHeight;
+    while (width / 2 >= size.width && height / 2 >= size.height) {
+        width = Math.round(width / 2);
+        height = Math.round(height / 2);
+        const { canvas, ctx } = createCanvas(width, height);
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(source, 0, 0, width, height);
+        source = canvas;
+    }
+    const { canvas, ctx } = createCanvas(size.width, size.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, size.width, size.height);
+    return canvas;
+};
+
+// Photos stay lossy to keep uploads small; anything else (including images
+// with transparent padding) is kept as PNG.
+const encodeLike = (canvas: HTMLCanvasElement, filename: string, sourceType: string): Promise<File> => {
+    const lossy = sourceType === 'image/jpeg' || sourceType === 'image/webp';
+    return canvasToFile(canvas, filename, lossy ? sourceType : 'image/png', lossy ? 0.92 : undefined);
+};
+
+/**
+ * Resizes an image file to exact pixel dimensions.
+ * @param file The image to resize.
+ * @param size The target size.
+ * @param filename Name of the resulting file.
+ * @returns A promise that resolves to the resized image, encoded as the source type when that is JPEG or WebP and as PNG otherwise.
+ */
+export const resizeImageFile = async (file: File, size: Size, filename: string): Promise<File> => {
+    const image = await loadImage(file);
+    return encodeLike(resample(image, size), filename, file.type);
+};
+
+/**
+ * Prepares the version of an image that is sent to the model.
+ * @param file The full-resolution image.
+ * @param maxDimension Longest side of the proxy in pixels.
+ * @returns A promise that resolves to the proxy and its scale relative to the original.
+ */
+export const createModelProxy = async (file: File, maxDimension: number = MODEL_MAX_DIMENSION): Promise<ModelProxy> => {
+    const image = await loadImage(file);
+    const fullSize = { width: image.naturalWidth, height: image.naturalHeight };
+    const size = getProxySize(fullSize, maxDimension);
+    if (size.width === fullSize.width && size.height === fullSize.height) {
+        return { file, size, fullSize, scale: 1 };
+    }
+
+    const proxyFile = await encodeLike(resample(image, size), `proxy-${file.name}`, file.type);
+    console.log(`Created ${size.width}x${size.height} model proxy for ${fullSize.width}x${fullSize.height} image.`);
+    return { file: proxyFile, size, fullSize, scale: size.width / fullSize.width };
+};
+
+const luminance = (data: Uint8ClampedArray, offset: number): number =>
+    data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+
+/**
+ * Maps a result generated from a proxy back onto the full-resolution original.
+ * The result is upscaled and the original's high-frequency detail (the original
+ * minus its upscaled proxy) is added back wherever the result kept the picture,
+ * fading out where the model repainted it. Pixels outside `bounds` are copied
+ * from the original untouched.
+ * @param original The full-resolution image the proxy was made from.
+ * @param proxy The proxy that was sent to the model.
+ * @param resultUrl Data URL of the model result, at the proxy size.
+ * @param bounds Optional rectangle, in full-resolution pixels, to restore; defaults to the whole image.
+ * @returns A promise that resolves to the data URL of the full-resolution result.
+ */
+export const restoreFullResolution = async (
+    original: File,
+    proxy: ModelProxy,
+    resultUrl: string,
+    bounds?: PixelRect,
+): Promise<string> => {
+    const [fullImage, proxyImage, resultImage] = await Promise.all([
+        loadImage(original),
+        loadImage(proxy.file),
+        loadImage(resultUrl),
+    ]);
+    const { width, height } = proxy.fullSize;
+    const area = bounds ? clampRect(bounds, proxy.fullSize) : { x: 0, y: 0, width, height };
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(fullImage, 0, 0);
+    if (area.width === 0 || area.height === 0) {
+        return canvas.toDataURL('image/png');
+    }
+
+    const { ctx: proxyCtx } = createCanvas(area.width, STRIP_HEIGHT);
+    const { ctx: resultCtx } = createCanvas(area.width, STRIP_HEIGHT);
+    proxyCtx.imageSmoothingQuality = 'high';
+    resultCtx.imageSmoothingQuality = 'high';
+
+    const bottom = area.y + area.height;
+    for (let top = area.y; top < bottom; top += STRIP_HEIGHT) {
+        const rows = Math.min(STRIP_HEIGHT, bottom - top);
+        // Each strip draws the whole upscaled image at an offset, so neighbouring
+        // strips sample it identically and no seams appear between them.
+        proxyCtx.clearRect(0, 0, area.width, STRIP_HEIGHT);
+        resultCtx.clearRect(0, 0, area.width, STRIP_HEIGHT);
+        proxyCtx.drawImage(proxyImage, -area.x, -top, width, height);
+        resultCtx.drawImage(resultImage, -area.x, -top, width, height);
+
+        const strip = ctx.getImageData(area.x, top, area.width, rows);
+        const upscaledProxy = proxyCtx.getImageData(0, 0, area.width, rows).data;
+        const upscaledResult = resultCtx.getImageData(0, 0, area.width, rows).data;
+        const data = strip.data;
+        for (let i = 0; i < data.length; i += 4) {
+            const change = Math.abs(luminance(upscaledResult, i) - luminance(upscaledProxy, i));
+            const detail = 1 - Math.max(0, Math.min(1, (change - DETAIL_FADE_START) / (DETAIL_FADE_END - DETAIL_FADE_START)));
+            for (let channel = 0; channel < 3; channel++) {
+                data[i + channel] = upscaledResult[i + channel] + (data[i + channel] - upscaledProxy[i + channel]) * detail;
+            }
+            data[i + 3] = upscaledResult[i + 3];
+        }
+        ctx.putImageData(strip, area.x, top);
+    }
+
+    console.log(`Restored ${area.width}x${area.height} region of ${width}x${height} image from model proxy.`);
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCanvas } from './imageUtils';
+
+/*
+ * Drawing operations for the Adjust/Filters mask. The mask canvas holds the
+ * selection in its alpha channel, painted in the overlay colour so it can be
+ * shown as-is; `renderMaskFile` turns it into the white-on-black PNG the model
+ * and compositing expect.
+ */
+
+const OVERLAY_STORAGE_KEY = 'pixelshop-mask-overlay';
+
+export type MaskTool = 'brush' | 'eraser' | 'rectangle' | 'ellipse' | 'lasso' | 'fill';
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface MaskOverlay {
+    /** CSS hex colour the mask is shown in. */
+    color: string;
+    /** Opacity of the mask over the image, 0–1. */
+    opacity: number;
+}
+
+export const DEFAULT_MASK_OVERLAY: MaskOverlay = { color: '#e60000', opacity: 0.5 };
+
+/** Mask undo steps kept; older ones are dropped. */
+export const MAX_MASK_UNDO = 30;
+export const MAX_MASK_FEATHER = 50;
+
+export const getMaskOverlay = (): MaskOverlay => {
+    try {
+        return { ...DEFAULT_MASK_OVERLAY, ...JSON.parse(localStorage.getItem(OVERLAY_STORAGE_KEY) ?? '{}') };
+    } catch (error) {
+        console.error('Failed to read the mask overlay from localStorage', error);
+        return DEFAULT_MASK_OVERLAY;
+    }
+};
+
+export const setMaskOverlay = (overlay: MaskOverlay): void => {
+    try {
+        localStorage.setItem(OVERLAY_STORAGE_KEY, JSON.stringify(overlay));
+    } catch (error) {
+        console.error('Failed to save the mask overlay to localStorage', error);
+    }
+};
+
+// Erasing removes alpha whatever colour is used; painting adds it
+const prepare = (ctx: CanvasRenderingContext2D, color: string, erase: boolean) => {
+    ctx.globalCompositeOperation = erase ? 'destination-out' : 'source-over';
+    ctx.fillStyle = color;
+    ctx.strokeStyle = color;
+};
+
+/** Paints (or erases) a round-ended line of `width` canvas pixels. */
+export const paintStroke = (ctx: CanvasRenderingContext2D, from: Point, to: Point, width: number, color: string, erase: boolean): void => {
+    ctx.save();
+    prepare(ctx, color, erase);
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.lineWidth = width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.stroke();
+    ctx.restore();
+};
+
+/**
+ * Adds (or removes) a filled shape. Rectangles and ellipses are given by two
+ * opposite corners of their bounding box; lassos by their vertices.
+ */
+export const paintShape = (ctx: CanvasRenderingContext2D, tool: 'rectangle' | 'ellipse' | 'lasso', points: Point[], color: string, erase: boolean): void => {
+    if (points.length < 2) return;
+    ctx.save();
+    prepare(ctx, color, erase);
+    ctx.beginPath();
+    if (tool === 'lasso') {
+        points.forEach((point, index) => index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+        ctx.closePath();
+    } else {
+        const [start, end] = [points[0], points[points.length - 1]];
+        const x = Math.min(start.x, end.x);
+        const y = Math.min(start.y, end.y);
+        const width = Math.abs(end.x - start.x);
+        const height = Math.abs(end.y - start.y);
+        if (tool === 'rectangle') {
+            ctx.rect(x, y, width, height);
+        } else {
+            ctx.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+        }
+    }
+    ctx.fill();
+    ctx.restore();
+};
+
+/**
+ * Flood-fills the area around `start` that is on the same side of the mask
+ * (selected or not), e.g. to fill the inside of an outline drawn with the brush.
+ */
+export const floodFillMask = (canvas: HTMLCanvasElement, start: Point, color: string, erase: boolean): void => {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+    const { width, height } = canvas;
+    const startX = Math.floor(start.x);
+    const startY = Math.floor(start.y);
+    if (startX < 0 || startY < 0 || startX >= width || startY >= height) return;
+
+    const pixels = ctx.getImageData(0, 0, width, height);
+    const data = pixels.data;
+    const region = new Uint8Array(width * height);
+    const isSelected = (index: number) => data[index * 4 + 3] >= 128;
+    const target = isSelected(startY * width + startX);
+    const matches = (x: number, y: number) => !region[y * width + x] && isSelected(y * width + x) === target;
+
+    // Scanline fill: each run of matching pixels is filled at once, and the runs
+    // touching it above and below are queued, which keeps the stack small.
+    const stack: Point[] = [{ x: startX, y: startY }];
+    while (stack.length > 0) {
+        const { x: seedX, y } = stack.pop()!;
+        if (!matches(seedX, y)) continue;
+        let x = seedX;
+        while (x > 0 && matches(x - 1, y)) x--;
+        let queuedAbove = false;
+        let queuedBelow = false;
+        for (; x < width && matches(x, y); x++) {
+            region[y * width + x] = 1;
+            if (y > 0) {
+                const above = matches(x, y - 1);
+                if (above && !queuedAbove) stack.push({ x, y: y - 1 });
+                queuedAbove = above;
+            }
+            if (y < height - 1) {
+                const below = matches(x, y + 1);
+                if (below && !queuedBelow) stack.push({ x, y: y + 1 });
+                queuedBelow = below;
+            }
+        }
+    }
+
+    const { canvas: fill, ctx: fillCtx } = createCanvas(width, height);
+    const fillPixels = fillCtx.createImageData(width, height);
+    region.forEach((inside, index) => {
+        if (inside) fillPixels.data[index * 4 + 3] = 255;
+    });
+    fillCtx.putImageData(fillPixels, 0, 0);
+    fillCtx.globalCompositeOperation = 'source-in';
+    fillCtx.fillStyle = color;
+    fillCtx.fillRect(0, 0, width, height);
+
+    ctx.save();
+    ctx.globalCompositeOperation = erase ? 'destination-out' : 'source-over';
+    ctx.drawImage(fill, 0, 0);
+    ctx.restore();
+};
+
+/** Swaps selected and unselected areas. */
+export const invertMask = (canvas: HTMLCanvasElement, color: string): void => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.save();
+    ctx.globalCompositeOperation = 'xor';
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.restore();
+};
+
+/** Repaints the selection in a new overlay colour, keeping its shape and soft edges. */
+export const recolorMask = (canvas: HTMLCanvasElement, color: string): void => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.save();
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.restore();
+};
+
+/** Copies the mask so a change can be undone; PNG keeps the copies small. */
+export const snapshotMask = (canvas: HTMLCanvasElement): Promise<Blob | null> =>
+    new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
+
+/** Puts a copy made by `snapshotMask` back. */
+export const restoreMask = async (canvas: HTMLCanvasElement, snapshot: Blob | null): Promise<void> => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (snapshot) {
+        const bitmap = await createImageBitmap(snapshot);
+        ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        bitmap.close();
+    }
+};
+
+/**
+ * Renders the mask as a white-on-black PNG, softening its edges.
+ * @param canvas The mask canvas.
+ * @param featherRadius Blur radius in canvas pixels; 0 for hard edges.
+ * @returns A promise that resolves to the mask file.
+ */
+export const renderMaskFile = (canvas: HTMLCanvasElement, featherRadius: number): Promise<File | null> => {
+    const { canvas: selection, ctx: selectionCtx } = createCanvas(canvas.width, canvas.height);
+    selectionCtx.drawImage(canvas, 0, 0);
+    selectionCtx.globalCompositeOperation = 'source-in';
+    selectionCtx.fillStyle = 'white';
+    selectionCtx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const { canvas: output, ctx } = createCanvas(canvas.width, canvas.height);
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, output.width, output.height);
+    if (featherRadius > 0) {
+        ctx.filter = `blur(${featherRadius}px)`;
+    }
+    ctx.drawImage(selection, 0, 0);
+
+    return new Promise(resolve => {
+        output.toBlob(blob => resolve(blob ? new File([blob], 'mask.png', { type: 'image/png' }) : null), 'image/png');
+    });
+};
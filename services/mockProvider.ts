@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageEditProvider, ImageGenerationRequest, ImageGenerationResult, AnalysisRequest, AnalysisResult } from './imageProvider';
+import { loadImage, createCanvas } from './imageUtils';
+import { PromptBlockedError, SafetyStopError, NoImageReturnedError, QuotaExceededError, NetworkError, sleep } from './errors';
+
+// A short artificial delay so loading states behave as they do against a real model.
+const MOCK_LATENCY_MS = 600;
+
+type PixelTransform = (r: number, g: number, b: number) => [number, number, number];
+
+const clamp = (value: number) => Math.max(0, Math.min(255, value));
+
+// Each operation maps to a fixed, easily recognisable transform so results are
+// predictable in demos and tests.
+const invert: PixelTransform = (r, g, b) => [255 - r, 255 - g, 255 - b];
+const sepia: PixelTransform = (r, g, b) => [
+    clamp(r * 0.393 + g * 0.769 + b * 0.189),
+    clamp(r * 0.349 + g * 0.686 + b * 0.168),
+    clamp(r * 0.272 + g * 0.534 + b * 0.131),
+];
+const brighten: PixelTransform = (r, g, b) => [clamp(r * 1.2 + 10), clamp(g * 1.2 + 10), clamp(b * 1.2 + 10)];
+
+// Returns a per-pixel weight (0-1) from the white areas of a mask, scaled to the image size.
+const readMaskWeights = async (mask: File, width: number, height: number): Promise<Float32Array> => {
+    const maskImage = await loadImage(mask);
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(maskImage, 0, 0, width, height);
+    const data = ctx.getImageData(0, 0, width, height).data;
+    const weights = new Float32Array(width * height);
+    for (let i = 0; i < weights.length; i++) {
+        weights[i] = data[i * 4] / 255;
+    }
+    return weights;
+};
+
+const applyTransform = async (request: ImageGenerationRequest, transform: PixelTransform): Promise<string> => {
+    // Later variants apply the transform less strongly so they are distinguishable.
+    const strength = 1 / (1 + (request.variant ?? 0) * 0.35);
+    const image = await loadImage(request.image);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.drawImage(image, 0, 0);
+
+    const { width, height } = canvas;
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const data = imageData.data;
+    const weights = request.mask ? await readMaskWeights(request.mask, width, height) : null;
+    const selection = request.selection;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const index = y * width + x;
+            let weight = (weights ? weights[index] : 1) * strength;
+            if (selection && (x < selection.x || y < selection.y || x >= selection.x + selection.width || y >= selection.y + selection.height)) {
+                weight = 0;
+            }
+            if (weight === 0) continue;
+
+            const offset = index * 4;
+            const [r, g, b] = transform(data[offset], data[offset + 1], data[offset + 2]);
+            data[offset] = data[offset] + (r - data[offset]) * weight;
+            data[offset + 1] = data[offset + 1] + (g - data[offset + 1]) * weight;
+            data[offset + 2] = data[offset + 2] + (b - data[offset + 2]) * weight;
+        }
+    }
+
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+// Fills the transparent padding by stretching a blurred copy of the image behind it.
+const fillPadding = async (request: ImageGenerationRequest): Promise<string> => {
+    const image = await loadImage(request.image);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.filter = 'blur(24px)';
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    ctx.filter = 'none';
+    ctx.drawImage(image, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+// Prompts containing `mock:<failure>` raise the matching error, so error handling
+// and retries can be exercised offline.
+const simulateFailure = (request: ImageGenerationRequest): void => {
+    const failure = request.userPrompt.match(/mock:(\w+)/)?.[1];
+    switch (failure) {
+        case 'blocked':
+            request.onResponse?.({ blockReason: 'OTHER' });
+            throw new PromptBlockedError('OTHER', 'Simulated by the mock provider.');
+        case 'safety':
+            request.onResponse?.({ finishReason: 'SAFETY' });
+            throw new SafetyStopError('SAFETY', request.operation);
+        case 'text':
+            request.onResponse?.({ finishReason: 'STOP', text: 'I cannot help with that request.' });
+            throw new NoImageReturnedError(request.operation, 'I cannot help with that request.');
+        case 'empty':
+            request.onResponse?.({ finishReason: 'STOP' });
+            throw new NoImageReturnedError(request.operation);
+        case 'quota': throw new QuotaExceededError('Simulated 429 from the mock provider.');
+        case 'network': throw new NetworkError('Simulated network failure from the mock provider.');
+    }
+};
+
+// Pastes the product, scaled to fit, into the centre of the selection.
+const pasteProduct = async (request: ImageGenerationRequest): Promise<string> => {
+    const image = await loadImage(request.image);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.drawImage(image, 0, 0);
+    if (request.product) {
+        const product = await loadImage(request.product);
+        const area = request.selection ?? { x: 0, y: 0, width: canvas.width, height: canvas.height };
+        const fit = Math.min(area.width / product.naturalWidth, area.height / product.naturalHeight);
+        const width = product.naturalWidth * fit;
+        const height = product.naturalHeight * fit;
+        ctx.drawImage(product, area.x + (area.width - width) / 2, area.y + (area.height - height) / 2, width, height);
+    }
+    return canvas.toDataURL('image/png');
+};
+
+const renderOperation = (request: ImageGenerationRequest): Promise<string> => {
+    switch (request.operation) {
+        case 'edit':
+            return applyTransform(request, invert);
+        case 'filter':
+            return applyTransform(request, sepia);
+        case 'adjust':
+            return applyTransform(request, brighten);
+        case 'uncrop':
+            return fillPadding(request);
+        case 'place':
+            return pasteProduct(request);
+    }
+};
+
+// The mock makes no billable calls, so it reports no token usage.
+const generateImage = async (request: ImageGenerationRequest): Promise<ImageGenerationResult> => {
+    console.log(`Mock provider handling ${request.operation}: "${request.userPrompt}"`);
+    await sleep(MOCK_LATENCY_MS, request.signal);
+    simulateFailure(request);
+    const imageUrl = await renderOperation(request);
+    request.onResponse?.({ finishReason: 'STOP', metadata: { provider: 'mock', model: 'mock-transforms' } });
+    return { imageUrl };
+};
+
+// Fixed answers in the same shape the Gemini provider returns.
+const answerAnalysis = (request: AnalysisRequest): unknown => {
+    switch (request.operation) {
+        case 'detect':
+            return [
+                { label: 'subject', box_2d: [200, 250, 800, 750] },
+                { label: 'lower half', box_2d: [500, 0, 1000, 1000] },
+            ];
+        case 'suggest':
+            return {
+                description: 'A test image analysed by the offline mock.',
+                edit: ['invert the selected area'],
+                adjust: ['make the image brighter'],
+                filter: ['vintage sepia tone'],
+            };
+        case 'enhance':
+            return { prompt: `${request.userPrompt.trim()}, rendered with natural detail and consistent lighting, keeping the composition unchanged` };
+    }
+};
+
+const analyzeImage = async (request: AnalysisRequest): Promise<AnalysisResult> => {
+    console.log(`Mock provider handling ${request.operation}.`);
+    await sleep(MOCK_LATENCY_MS, request.signal);
+    const data = answerAnalysis(request);
+    request.onResponse?.({ finishReason: 'STOP', text: JSON.stringify(data), metadata: { provider: 'mock', model: 'mock-analysis' } });
+    return { data };
+};
+
+export const mockProvider: ImageEditProvider = {
+    id: 'mock',
+    label: 'Offline mock',
+    model: 'mock-transforms',
+    analysisModel: 'mock-analysis',
+    generateImage,
+    analyzeImage,
+};
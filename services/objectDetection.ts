@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { DetectedObject } from '../types';
+import { InvalidResponseError } from './errors';
+import { clampRect, type Size } from './coordinates';
+import { loadImage, createCanvas } from './imageUtils';
+
+/*
+ * Object detection asks the model for labelled boxes and, where it can,
+ * segmentation masks. Boxes come back as [ymin, xmin, ymax, xmax] normalised to
+ * 0-1000, so they are independent of the resolution the model saw; masks are
+ * PNG probability maps covering their box.
+ */
+
+const MAX_OBJECTS = 16;
+const THUMBNAIL_SIZE = 96;
+// Mask probabilities (0-255) at or above this count as part of the object.
+const MASK_THRESHOLD = 128;
+
+export const DETECTION_PROMPT = `Detect the distinct, prominent objects in this image (people, animals, vehicles, furniture, products and similar), at most ${MAX_OBJECTS}.
+For each object return:
+- "label": a short, specific description, e.g. "woman in red coat" or "white car". Labels must be unique.
+- "box_2d": the bounding box as [ymin, xmin, ymax, xmax], normalized to 0-1000.
+- "mask": a segmentation mask of the object within its bounding box, as a base64-encoded PNG probability map prefixed with "data:image/png;base64,".
+Do not include the background, sky or ground as objects.`;
+
+export const DETECTION_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            label: { type: 'string' },
+            box_2d: { type: 'array', items: { type: 'integer' }, minItems: 4, maxItems: 4 },
+            mask: { type: 'string' },
+        },
+        required: ['label', 'box_2d'],
+    },
+};
+
+interface RawDetection {
+    label?: unknown;
+    box_2d?: unknown;
+    mask?: unknown;
+}
+
+const isBox = (value: unknown): value is [number, number, number, number] =>
+    Array.isArray(value) && value.length === 4 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+const toMaskUrl = (mask: unknown): string | null => {
+    if (typeof mask !== 'string' || mask.length === 0) return null;
+    return mask.startsWith('data:') ? mask : `data:image/png;base64,${mask}`;
+};
+
+/**
+ * Turns the model's detection reply into objects in the image's natural pixels.
+ * Malformed entries and empty boxes are skipped.
+ * @param data The parsed JSON reply.
+ * @param image The image the objects were detected in, at full resolution.
+ * @returns A promise that resolves to the detected objects.
+ */
+export const toDetectedObjects = async (data: unknown, image: File): Promise<DetectedObject[]> => {
+    if (!Array.isArray(data)) {
+        throw new InvalidResponseError('The detection response was not a list of objects.');
+    }
+    const source = await loadImage(image);
+    const size: Size = { width: source.naturalWidth, height: source.naturalHeight };
+
+    const objects: DetectedObject[] = [];
+    (data as RawDetection[]).slice(0, MAX_OBJECTS).forEach((item, index) => {
+        if (typeof item?.label !== 'string' || !isBox(item.box_2d)) return;
+        const [ymin, xmin, ymax, xmax] = item.box_2d;
+        const box = clampRect({
+            x: xmin / 1000 * size.width,
+            y: ymin / 1000 * size.height,
+            width: (xmax - xmin) / 1000 * size.width,
+            height: (ymax - ymin) / 1000 * size.height,
+        }, size);
+        if (box.width === 0 || box.height === 0) return;
+
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(box.width, box.height));
+        const { canvas, ctx } = createCanvas(Math.max(1, Math.round(box.width * scale)), Math.max(1, Math.round(box.height * scale)));
+        ctx.drawImage(source, box.x, box.y, box.width, box.height, 0, 0, canvas.width, canvas.height);
+
+        objects.push({
+            id: `${index}-${item.label}`,
+            label: item.label.trim() || 'object',
+            box,
+            maskUrl: toMaskUrl(item.mask),
+            thumbnailUrl: canvas.toDataURL('image/jpeg', 0.8),
+        });
+    });
+    console.log(`Detected ${objects.length} object(s).`);
+    return objects;
+};
+
+/**
+ * Paints an object onto a mask canvas in white, following its segmentation
+ * mask when there is one and filling its box otherwise.
+ * @param ctx The mask canvas context.
+ * @param object The object to add to the mask.
+ * @param imageSize The natural size of the image the object was detected in.
+ */
+export const drawObjectMask = async (ctx: CanvasRenderingContext2D, object: DetectedObject, imageSize: Size): Promise<void> => {
+    const scaleX = ctx.canvas.width / imageSize.width;
+    const scaleY = ctx.canvas.height / imageSize.height;
+    const x = object.box.x * scaleX;
+    const y = object.box.y * scaleY;
+    const width = object.box.width * scaleX;
+    const height = object.box.height * scaleY;
+
+    let shape: HTMLCanvasElement | null = null;
+    if (object.maskUrl) {
+        try {
+            const mask = await loadImage(object.maskUrl);
+            const { canvas, ctx: shapeCtx } = createCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+            shapeCtx.drawImage(mask, 0, 0, canvas.width, canvas.height);
+            const pixels = shapeCtx.getImageData(0, 0, canvas.width, canvas.height);
+            const data = pixels.data;
+            for (let i = 0; i < data.length; i += 4) {
+                const inside = data[i] >= MASK_THRESHOLD;
+                data[i] = data[i + 1] = data[i + 2] = 255;
+                data[i + 3] = inside ? 255 : 0;
+            }
+            shapeCtx.putImageData(pixels, 0, 0);
+            shape = canvas;
+        } catch (error) {
+            console.warn(`Could not read the mask for "${object.label}"; using its bounding box.`, error);
+        }
+    }
+
+    if (shape) {
+        ctx.drawImage(shape, x, y, width, height);
+    } else {
+        ctx.fillStyle = 'white';
+        ctx.fillRect(x, y, width, height);
+    }
+};
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Product } from '../types';
+import { openDatabase, requestToPromise, transactionDone } from './idb';
+
+/*
+ * The product library keeps uploaded product cutouts in IndexedDB, so the same
+ * products can be placed into many scenes across sessions.
+ */
+
+const DB_NAME = 'pixelshop-products';
+const DB_VERSION = 1;
+const STORE = 'products';
+
+interface StoredProduct {
+    id: string;
+    name: string;
+    blob: Blob;
+    filename: string;
+    addedAt: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+
+const getDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+            db.createObjectStore(STORE, { keyPath: 'id' });
+        }).catch((error) => {
+            databasePromise = null;
+            throw error;
+        });
+    }
+    return databasePromise;
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+const toProduct = (stored: StoredProduct): Product => ({
+    id: stored.id,
+    name: stored.name,
+    file: new File([stored.blob], stored.filename, { type: stored.blob.type }),
+    addedAt: stored.addedAt,
+});
+
+/**
+ * Lists the products in the library, newest first.
+ * @returns A promise that resolves to the products.
+ */
+export const listProducts = async (): Promise<Product[]> => {
+    const db = await getDatabase();
+    const stored = await requestToPromise<StoredProduct[]>(db.transaction(STORE).objectStore(STORE).getAll());
+    return stored.sort((a, b) => b.addedAt - a.addedAt).map(toProduct);
+};
+
+/**
+ * Adds product images to the library.
+ * @param items The image files and the names to show for them.
+ * @returns A promise that resolves to the stored products.
+ */
+export const addProducts = async (items: { file: File; name: string }[]): Promise<Product[]> => {
+    const db = await getDatabase();
+    const now = Date.now();
+    const stored: StoredProduct[] = items.map((item, index) => ({
+        id: `${now}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+        name: item.name.trim() || item.file.name.replace(/\.[^.]+$/, ''),
+        blob: item.file,
+        filename: item.file.name,
+        addedAt: now + index,
+    }));
+    const transaction = db.transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    stored.forEach(product => store.put(product));
+    await transactionDone(transaction);
+    console.log(`Added ${stored.length} product(s) to the library.`);
+    notify();
+    return stored.map(toProduct);
+};
+
+export const deleteProduct = async (id: string): Promise<void> => {
+    const db = await getDatabase();
+    const transaction = db.transaction(STORE, 'readwrite');
+    transaction.objectStore(STORE).delete(id);
+    await transactionDone(transaction);
+    notify();
+};
+
+/** Calls `listener` whenever products are added or deleted; returns an unsubscribe function. */
+export const subscribeToProducts = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
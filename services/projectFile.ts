@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import JSZip from 'jszip';
+import type { HistoryEntry } from '../types';
+import type { SessionSnapshot } from './sessionStore';
+import { HISTORY_OPERATION_LABELS, createHistoryId } from './history';
+import { normalizeGenerationSettings } from './generationSettings';
+
+/*
+ * A project file (.pixelshop) is a zip archive holding a whole editing session,
+ * so it can be handed to someone else and opened with its undo/redo state and
+ * every branch intact. `manifest.json` lists the steps with their prompts,
+ * selections and settings; each step's image and mask are stored beside it.
+ */
+
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.pixelshop';
+
+const MANIFEST = 'manifest.json';
+
+type ManifestStep = Omit<HistoryEntry, 'file' | 'mask' | 'thumbnailUrl'> & {
+    /** Path of the step's image in the archive, and its original file name. */
+    image: string;
+    filename: string;
+    /** Path of the step's mask in the archive, if it had one. */
+    mask: string | null;
+};
+
+interface ProjectManifest {
+    version: typeof PROJECT_VERSION;
+    name: string;
+    savedAt: string;
+    currentId: string;
+    tipId: string;
+    steps: ManifestStep[];
+}
+
+/** Thrown when a file is not a project this version can open. */
+export class InvalidProjectError extends Error {
+    name = 'InvalidProjectError';
+}
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+};
+
+const extensionFor = (file: File): string => EXTENSIONS[file.type] ?? file.name.split('.').pop() ?? 'png';
+
+const MIME_TYPES: Record<string, string> = Object.fromEntries(Object.entries(EXTENSIONS).map(([type, extension]) => [extension, type]));
+
+/** Whether a file looks like a project file rather than an image. */
+export const isProjectFile = (file: File): boolean => file.name.toLowerCase().endsWith(PROJECT_EXTENSION);
+
+/**
+ * Packs a session into a project archive.
+ * @param name The project's name.
+ * @param snapshot The history to save and the current position in it.
+ * @returns A promise that resolves to the archive.
+ */
+export const createProjectArchive = async (name: string, snapshot: SessionSnapshot): Promise<Blob> => {
+    const zip = new JSZip();
+    const steps = snapshot.history.map(({ file, mask, thumbnailUrl, ...entry }): ManifestStep => {
+        const image = `images/${entry.id}.${extensionFor(file)}`;
+        zip.file(image, file);
+        const maskPath = mask ? `masks/${entry.id}.png` : null;
+        if (mask && maskPath) zip.file(maskPath, mask);
+        return { ...entry, image, filename: file.name, mask: maskPath };
+    });
+    const manifest: ProjectManifest = {
+        version: PROJECT_VERSION,
+        name,
+        savedAt: new Date().toISOString(),
+        currentId: snapshot.currentId,
+        tipId: snapshot.tipId,
+        steps,
+    };
+    zip.file(MANIFEST, JSON.stringify(manifest, null, 2));
+    console.log(`Packing project "${name}" with ${steps.length} step(s).`);
+    return zip.generateAsync({ type: 'blob' });
+};
+
+const readFile = async (zip: JSZip, path: string, filename: string): Promise<File> => {
+    const entry = zip.file(path);
+    if (!entry) {
+        throw new InvalidProjectError(`The project is missing ${path}.`);
+    }
+    const blob = await entry.async('blob');
+    const extension = path.split('.').pop() ?? '';
+    return new File([blob], filename, { type: MIME_TYPES[extension] ?? 'image/png' });
+};
+
+/**
+ * Opens a project archive, checking that its history is complete.
+ * @param file The .pixelshop file.
+ * @returns A promise that resolves to the project's name and session.
+ */
+export const readProjectArchive = async (file: File): Promise<SessionSnapshot & { name: string }> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch {
+        throw new InvalidProjectError('The file is not a Pixelshop project.');
+    }
+    const manifestFile = zip.file(MANIFEST);
+    if (!manifestFile) {
+        throw new InvalidProjectError('The file is not a Pixelshop project.');
+    }
+    let manifest: ProjectManifest;
+    try {
+        manifest = JSON.parse(await manifestFile.async('string'));
+    } catch {
+        throw new InvalidProjectError('The project manifest is not valid JSON.');
+    }
+    if (manifest?.version !== PROJECT_VERSION || !Array.isArray(manifest.steps) || manifest.steps.length === 0) {
+        throw new InvalidProjectError('The file is not a Pixelshop project, or was made by a newer version.');
+    }
+
+    // Parents are always written before their children, so a parent must be a
+    // step already read; this also rules out cycles. Steps are ordered by
+    // creation time when loaded, so those times must not go backwards.
+    // Steps get new ids, so a project opened twice, or in the browser that saved
+    // it, never shares step records with another saved session.
+    const ids = new Map<string, string>();
+    const history: HistoryEntry[] = [];
+    for (const [index, { image, filename, mask, ...step }] of manifest.steps.entries()) {
+        const parentId = index === 0 ? null : ids.get(step.parentId ?? '') ?? null;
+        const validParent = index === 0 ? step.parentId === null : parentId !== null;
+        const validTime = Number.isFinite(step.createdAt) && (index === 0 || step.createdAt >= history[index - 1].createdAt);
+        if (typeof step.id !== 'string' || ids.has(step.id) || !validParent || !validTime || !(step.operation in HISTORY_OPERATION_LABELS)) {
+            throw new InvalidProjectError(`Step ${index + 1} of the project is not valid.`);
+        }
+        const id = createHistoryId();
+        ids.set(step.id, id);
+        history.push({
+            ...step,
+            id,
+            parentId,
+            file: await readFile(zip, image, filename || `step-${index}.png`),
+            mask: mask ? await readFile(zip, mask, `mask-${id}.png`) : null,
+            thumbnailUrl: null,
+            generation: step.generation ? { ...step.generation, settings: normalizeGenerationSettings(step.generation.settings) } : null,
+        });
+    }
+    const lastId = history[history.length - 1].id;
+    const currentId = ids.get(manifest.currentId) ?? lastId;
+    const tipId = ids.get(manifest.tipId) ?? currentId;
+    console.log(`Opened project "${manifest.name}" with ${history.length} step(s).`);
+    return {
+        name: typeof manifest.name === 'string' && manifest.name.trim() ? manifest.name.trim() : file.name.replace(/\.[^.]+$/, ''),
+        history,
+        currentId,
+        tipId,
+    };
+};
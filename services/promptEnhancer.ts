@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { InvalidResponseError } from './errors';
+
+/*
+ * Prompt enhancement rewrites a terse adjustment or filter prompt ("vintage",
+ * "better") into the kind of specific instruction the built-in presets use.
+ * The photo can be sent along so the rewrite fits what is actually in it.
+ */
+
+export type EnhanceablePromptType = 'adjust' | 'filter';
+
+const MAX_ENHANCED_LENGTH = 400;
+
+const TYPE_GUIDANCE: Record<EnhanceablePromptType, string> = {
+    adjust: 'a photographic adjustment (lighting, colour, tone, focus or detail) that must keep the photo realistic and its content unchanged',
+    filter: 'an artistic filter or style applied across the photo, naming the look, palette, texture and characteristic effects',
+};
+
+const EXAMPLES: Record<EnhanceablePromptType, string> = {
+    adjust: '"warmer" becomes "Adjust the color temperature to give the image warmer, golden-hour style lighting."',
+    filter: '"anime" becomes "Give the image a vibrant Japanese anime style, with bold outlines, cel-shading, and saturated colors."',
+};
+
+/**
+ * Builds the instruction that asks the model to rewrite a prompt.
+ * @param prompt The user's short prompt.
+ * @param type Whether the prompt is for an adjustment or a filter.
+ * @param withImage Whether the photo is sent along with the instruction.
+ * @returns The instruction text.
+ */
+export const buildEnhancementPrompt = (prompt: string, type: EnhanceablePromptType, withImage: boolean): string =>
+    `You improve prompts for an AI photo editor. Rewrite the user's prompt below into one detailed, specific instruction for ${TYPE_GUIDANCE[type]}.
+For example, ${EXAMPLES[type]}
+Keep the user's intent; do not add unrelated changes. Write one or two sentences, at most ${MAX_ENHANCED_LENGTH} characters.${withImage ? '\nThe photo is attached: refer to what is actually in it where that makes the instruction clearer.' : ''}
+
+User's prompt: "${prompt}"`;
+
+export const ENHANCEMENT_SCHEMA = {
+    type: 'object',
+    properties: {
+        prompt: { type: 'string' },
+    },
+    required: ['prompt'],
+};
+
+/**
+ * Reads the rewritten prompt from the model's reply.
+ * @param data The parsed JSON reply.
+ * @returns The enhanced prompt.
+ */
+export const toEnhancedPrompt = (data: unknown): string => {
+    const prompt = typeof data === 'object' && data !== null ? (data as { prompt?: unknown }).prompt : undefined;
+    if (typeof prompt !== 'string' || prompt.trim().length === 0) {
+        throw new InvalidResponseError('The enhancement response did not contain a prompt.');
+    }
+    return prompt.trim();
+};
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { editSuggestions, adjustmentSuggestions, filterSuggestions } from '../data/suggestions';
+import { InvalidResponseError } from './errors';
+
+/*
+ * Prompt suggestions tailored to the photo: the model describes the image and
+ * proposes edits, adjustments and filters that make sense for it. Suggestions
+ * are cached in localStorage by a hash of the image, so undo, redo and reloads
+ * do not ask again, and the static lists are used whenever there are none.
+ */
+
+const CACHE_STORAGE_KEY = 'pixelshop-prompt-suggestions';
+const MAX_CACHED_IMAGES = 50;
+const SUGGESTIONS_PER_TAB = 6;
+
+export interface PromptSuggestionSet {
+    /** One-sentence description of the photo. */
+    description: string;
+    edit: string[];
+    adjust: string[];
+    filter: string[];
+}
+
+/** The static suggestions, used offline and before tailored ones arrive. */
+export const STATIC_SUGGESTIONS: PromptSuggestionSet = {
+    description: '',
+    edit: editSuggestions,
+    adjust: adjustmentSuggestions,
+    filter: filterSuggestions,
+};
+
+export const SUGGESTION_PROMPT = `You are helping someone edit this photo. First describe it in one sentence. Then suggest short, specific prompts (at most 8 words each) that would improve this particular photo or are fun for it, ${SUGGESTIONS_PER_TAB} for each of:
+- "edit": localized changes to something visible in the photo, e.g. "remove the power lines" or "close the open car door". Only mention objects that are actually in the photo.
+- "adjust": photographic adjustments, e.g. "brighten the underexposed face" or "reduce the blue cast in the shadows".
+- "filter": artistic styles that would suit this subject, e.g. "moody film noir" for a city street at night.
+Write every suggestion as an instruction in lower case, without a trailing period.`;
+
+export const SUGGESTION_SCHEMA = {
+    type: 'object',
+    properties: {
+        description: { type: 'string' },
+        edit: { type: 'array', items: { type: 'string' } },
+        adjust: { type: 'array', items: { type: 'string' } },
+        filter: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['description', 'edit', 'adjust', 'filter'],
+};
+
+const cleanList = (value: unknown): string[] => {
+    if (!Array.isArray(value)) return [];
+    const items = value
+        .filter((item): item is string => typeof item === 'string')
+        .map(item => item.trim().replace(/\.$/, ''))
+        .filter(item => item.length > 0);
+    return Array.from(new Set(items)).slice(0, SUGGESTIONS_PER_TAB);
+};
+
+/**
+ * Validates the model's reply. Tabs the model left empty fall back to the static lists.
+ * @param data The parsed JSON reply.
+ * @returns The suggestion set.
+ */
+export const toSuggestionSet = (data: unknown): PromptSuggestionSet => {
+    if (typeof data !== 'object' || data === null) {
+        throw new InvalidResponseError('The suggestion response was not an object.');
+    }
+    const reply = data as Record<string, unknown>;
+    const edit = cleanList(reply.edit);
+    const adjust = cleanList(reply.adjust);
+    const filter = cleanList(reply.filter);
+    return {
+        description: typeof reply.description === 'string' ? reply.description.trim() : '',
+        edit: edit.length > 0 ? edit : STATIC_SUGGESTIONS.edit,
+        adjust: adjust.length > 0 ? adjust : STATIC_SUGGESTIONS.adjust,
+        filter: filter.length > 0 ? filter : STATIC_SUGGESTIONS.filter,
+    };
+};
+
+type SuggestionCache = Record<string, { suggestions: PromptSuggestionSet; savedAt: number }>;
+
+const readCache = (): SuggestionCache => {
+    try {
+        return JSON.parse(localStorage.getItem(CACHE_STORAGE_KEY) ?? '{}');
+    } catch (error) {
+        console.error('Failed to read prompt suggestions from localStorage', error);
+        return {};
+    }
+};
+
+export const getCachedSuggestions = (imageHash: string): PromptSuggestionSet | null =>
+    readCache()[imageHash]?.suggestions ?? null;
+
+export const cacheSuggestions = (imageHash: string, suggestions: PromptSuggestionSet): void => {
+    // Keep only the most recently saved images.
+    const entries = Object.entries({ ...readCache(), [imageHash]: { suggestions, savedAt: Date.now() } })
+        .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+        .slice(0, MAX_CACHED_IMAGES);
+    try {
+        localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+    } catch (error) {
+        console.error('Failed to save prompt suggestions to localStorage', error);
+    }
+};
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { HistoryEntry } from '../types';
+import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateUncroppedImage, type OperationOptions } from './geminiService';
+import { getGenerationSettings, normalizeGenerationSettings, type GenerationSettings } from './generationSettings';
+import { naturalRectToPercent, percentRectToNatural, getUncropSize, type PercentRect, type Size } from './coordinates';
+import { loadImage, cropImageFile } from './imageUtils';
+import { resizeImageFile } from './largeImage';
+import { dataUrlToBlob, blobToDataUrl } from './idb';
+import { HISTORY_OPERATION_LABELS, type HistoryStep } from './history';
+
+/*
+ * A recipe is a history path saved as JSON so the same chain of operations can
+ * be replayed on other photos. Everything positional is relative: regions are
+ * percentages of the image they applied to, masks are rescaled to the new
+ * image, and uncrop keeps the aspect ratio it produced rather than a size.
+ */
+
+export const RECIPE_VERSION = 1;
+
+export type RecipeStep =
+    | { operation: 'edit'; prompt: string; region: PercentRect; settings: GenerationSettings | null }
+    | { operation: 'filter' | 'adjust'; prompt: string; /** PNG data URL of the mask, or null for the whole image. */ mask: string | null; settings: GenerationSettings | null }
+    | { operation: 'crop'; region: PercentRect }
+    | { operation: 'uncrop'; aspectRatio: number; settings: GenerationSettings | null };
+
+export interface EditRecipe {
+    version: typeof RECIPE_VERSION;
+    name: string;
+    createdAt: string;
+    steps: RecipeStep[];
+}
+
+/** Thrown when a file is not a recipe this version can replay. */
+export class InvalidRecipeError extends Error {
+    name = 'InvalidRecipeError';
+}
+
+const imageSize = async (file: File): Promise<Size> => {
+    const image = await loadImage(file);
+    return { width: image.naturalWidth, height: image.naturalHeight };
+};
+
+/**
+ * Turns a history path into a recipe. Uploads are not steps, and product
+ * placements are left out because the product is not part of the recipe.
+ * @param path The steps from the upload to the last step to include.
+ * @param name A name for the recipe.
+ * @returns A promise that resolves to the recipe and how many steps were left out.
+ */
+export const createRecipe = async (path: HistoryEntry[], name: string): Promise<{ recipe: EditRecipe; skipped: number }> => {
+    const steps: RecipeStep[] = [];
+    let skipped = 0;
+    for (let index = 1; index < path.length; index++) {
+        const entry = path[index];
+        const settings = entry.generation?.settings ?? null;
+        switch (entry.operation) {
+            case 'edit':
+            case 'crop': {
+                if (!entry.selection) {
+                    skipped++;
+                    break;
+                }
+                const region = naturalRectToPercent(entry.selection, await imageSize(path[index - 1].file));
+                steps.push(entry.operation === 'edit'
+                    ? { operation: 'edit', prompt: entry.prompt ?? '', region, settings }
+                    : { operation: 'crop', region });
+                break;
+            }
+            case 'filter':
+            case 'adjust':
+                steps.push({
+                    operation: entry.operation,
+                    prompt: entry.prompt ?? '',
+                    mask: entry.mask ? await blobToDataUrl(entry.mask) : null,
+                    settings,
+                });
+                break;
+            case 'uncrop': {
+                const size = await imageSize(entry.file);
+                steps.push({ operation: 'uncrop', aspectRatio: size.width / size.height, settings });
+                break;
+            }
+            default:
+                skipped++;
+        }
+    }
+    return { recipe: { version: RECIPE_VERSION, name, createdAt: new Date().toISOString(), steps }, skipped };
+};
+
+const isPercentRect = (value: unknown): value is PercentRect =>
+    typeof value === 'object' && value !== null
+    && ['x', 'y', 'width', 'height'].every(key => typeof (value as Record<string, unknown>)[key] === 'number');
+
+// Masks are only ever embedded as image data URLs; anything else, such as a
+// web address, would be fetched when the recipe is applied.
+const isMaskValue = (value: unknown): value is string | null | undefined =>
+    value === null || value === undefined || (typeof value === 'string' && value.startsWith('data:image/'));
+
+const readSettings = (value: unknown): GenerationSettings | null =>
+    typeof value === 'object' && value !== null ? normalizeGenerationSettings(value as Partial<GenerationSettings>) : null;
+
+/**
+ * Reads a recipe from JSON text, checking every step.
+ * @param text The file contents.
+ * @returns The recipe.
+ */
+export const parseRecipe = (text: string): EditRecipe => {
+    let data: Record<string, unknown>;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new InvalidRecipeError('The file is not valid JSON.');
+    }
+    if (data?.version !== RECIPE_VERSION || !Array.isArray(data.steps)) {
+        throw new InvalidRecipeError('The file is not a Pixelshop recipe, or was made by a newer version.');
+    }
+    const steps = (data.steps as Record<string, unknown>[]).map((step, index): RecipeStep => {
+        const prompt = typeof step?.prompt === 'string' ? step.prompt : '';
+        switch (step?.operation) {
+            case 'edit':
+                if (prompt && isPercentRect(step.region)) return { operation: 'edit', prompt, region: step.region, settings: readSettings(step.settings) };
+                break;
+            case 'filter':
+            case 'adjust':
+                if (prompt && isMaskValue(step.mask)) return { operation: step.operation, prompt, mask: step.mask ?? null, settings: readSettings(step.settings) };
+                break;
+            case 'crop':
+                if (isPercentRect(step.region)) return { operation: 'crop', region: step.region };
+                break;
+            case 'uncrop':
+                if (typeof step.aspectRatio === 'number' && step.aspectRatio > 0) return { operation: 'uncrop', aspectRatio: step.aspectRatio, settings: readSettings(step.settings) };
+                break;
+        }
+        throw new InvalidRecipeError(`Step ${index + 1} of the recipe is not valid.`);
+    });
+    if (steps.length === 0) {
+        throw new InvalidRecipeError('The recipe has no steps.');
+    }
+    return {
+        version: RECIPE_VERSION,
+        name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Untitled recipe',
+        createdAt: typeof data.createdAt === 'string' ? data.createdAt : new Date().toISOString(),
+        steps,
+    };
+};
+
+/** A short label for a step, e.g. `Filter: "vintage film"`. */
+export const describeRecipeStep = (step: RecipeStep): string => {
+    const label = HISTORY_OPERATION_LABELS[step.operation];
+    return 'prompt' in step ? `${label}: "${step.prompt}"` : label;
+};
+
+const dataUrlToImageFile = async (url: string, filename: string): Promise<File> => {
+    const blob = await dataUrlToBlob(url);
+    return new File([blob], filename, { type: blob.type || 'image/png' });
+};
+
+/**
+ * Applies one recipe step to an image.
+ * @param image The image to apply the step to.
+ * @param step The step.
+ * @param options Options passed to the AI operation. The step's own settings
+ * take precedence, then the saved settings for its operation.
+ * @returns A promise that resolves to the resulting image and the history step describing it.
+ */
+export const applyRecipeStep = async (image: File, step: RecipeStep, options: OperationOptions = {}): Promise<{ file: File; historyStep: HistoryStep }> => {
+    const size = await imageSize(image);
+    const startedAt = Date.now();
+    console.log(`Applying recipe step: ${describeRecipeStep(step)}`);
+
+    if (step.operation === 'crop') {
+        const selection = percentRectToNatural(step.region, size);
+        const file = await cropImageFile(image, selection, `recipe-cropped-${Date.now()}.png`);
+        return { file, historyStep: { operation: 'crop', selection } };
+    }
+
+    const generation = { operation: step.operation, settings: step.settings ?? options.settings ?? getGenerationSettings(step.operation) };
+    const stepOptions = { ...options, settings: generation.settings };
+    let imageUrl: string;
+    let historyStep: HistoryStep;
+    switch (step.operation) {
+        case 'edit': {
+            const selection = percentRectToNatural(step.region, size);
+            imageUrl = await generateEditedImage(image, step.prompt, selection, stepOptions);
+            historyStep = { operation: 'edit', prompt: step.prompt, selection, generation };
+            break;
+        }
+        case 'filter':
+        case 'adjust': {
+            const mask = step.mask
+                ? await resizeImageFile(await dataUrlToImageFile(step.mask, 'recipe-mask.png'), size, 'mask.png')
+                : null;
+            const generate = step.operation === 'filter' ? generateFilteredImage : generateAdjustedImage;
+            imageUrl = await generate(image, step.prompt, mask, stepOptions);
+            historyStep = { operation: step.operation, prompt: step.prompt, mask, generation };
+            break;
+        }
+        case 'uncrop': {
+            const target = getUncropSize(size, step.aspectRatio);
+            imageUrl = await generateUncroppedImage(image, target.width, target.height, stepOptions);
+            historyStep = { operation: 'uncrop', generation };
+            break;
+        }
+    }
+    const file = await dataUrlToImageFile(imageUrl, `recipe-${step.operation}-${Date.now()}.png`);
+    return { file, historyStep: { ...historyStep, durationMs: Date.now() - startedAt } };
+};
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { resolveModel, type ImageEditProvider, type ProviderOperation, type ImageGenerationRequest, type AnalysisRequest, type ProviderResponseDetails } from './imageProvider';
+import type { GenerationSettings } from './generationSettings';
+import { loadImage, createCanvas } from './imageUtils';
+
+/*
+ * Keeps the most recent AI requests in memory for the request inspector:
+ * exactly what was sent (prompt text and image parts) and what came back.
+ */
+
+const MAX_ENTRIES = 50;
+const THUMBNAIL_SIZE = 160;
+
+export type RequestStatus = 'pending' | 'success' | 'cached' | 'failed' | 'cancelled';
+
+export interface RequestInput {
+    label: string;
+    width: number;
+    height: number;
+    bytes: number;
+    /** Small JPEG data URL of the part as sent. */
+    thumbnailUrl: string;
+}
+
+export interface RequestLogEntry {
+    id: number;
+    startedAt: number;
+    durationMs: number | null;
+    operation: ProviderOperation;
+    provider: string;
+    model: string;
+    /** Generation settings sent with the request, for providers that use them. */
+    settings: GenerationSettings | null;
+    variant: number;
+    prompt: string;
+    userPrompt: string;
+    selection: ImageGenerationRequest['selection'] | null;
+    inputs: RequestInput[];
+    status: RequestStatus;
+    response: ProviderResponseDetails | null;
+    error: string | null;
+}
+
+let nextId = 1;
+let entries: RequestLogEntry[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const createThumbnail = async (label: string, file: File): Promise<RequestInput> => {
+    try {
+        const image = await loadImage(file);
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+        const { canvas, ctx } = createCanvas(Math.max(1, Math.round(image.naturalWidth * scale)), Math.max(1, Math.round(image.naturalHeight * scale)));
+        // Transparent areas, such as uncrop padding, show as grey.
+        ctx.fillStyle = '#808080';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+        return { label, width: image.naturalWidth, height: image.naturalHeight, bytes: file.size, thumbnailUrl: canvas.toDataURL('image/jpeg', 0.8) };
+    } catch (error) {
+        console.warn(`Could not create a thumbnail for the ${label} part.`, error);
+        return { label, width: 0, height: 0, bytes: file.size, thumbnailUrl: '' };
+    }
+};
+
+const updateEntry = (id: number, changes: Partial<RequestLogEntry>) => {
+    entries = entries.map(entry => entry.id === id ? { ...entry, ...changes } : entry);
+    notify();
+};
+
+/**
+ * Starts an inspector entry for a request.
+ * @returns Callbacks that attach the provider's response and complete the entry.
+ */
+export const logRequest = (
+    request: ImageGenerationRequest | AnalysisRequest,
+    provider: ImageEditProvider,
+    status: RequestStatus = 'pending',
+) => {
+    const id = nextId++;
+    const startedAt = Date.now();
+    const entry: RequestLogEntry = {
+        id,
+        startedAt,
+        durationMs: status === 'pending' ? null : 0,
+        operation: request.operation,
+        provider: provider.id,
+        model: resolveModel(provider, request),
+        settings: provider.configurable && 'settings' in request ? request.settings ?? null : null,
+        variant: 'variant' in request ? request.variant ?? 0 : 0,
+        prompt: request.prompt,
+        userPrompt: request.userPrompt,
+        selection: 'selection' in request ? request.selection ?? null : null,
+        inputs: [],
+        status,
+        response: null,
+        error: null,
+    };
+    entries = [entry, ...entries].slice(0, MAX_ENTRIES);
+    notify();
+
+    const parts: [string, File | null | undefined][] = [
+        ['image', request.image],
+        ['context', 'context' in request ? request.context : null],
+        ['product', 'product' in request ? request.product : null],
+        ['mask', 'mask' in request ? request.mask : null],
+    ];
+    Promise.all(parts.flatMap(([label, file]) => file ? [createThumbnail(label, file)] : []))
+        .then(inputs => updateEntry(id, { inputs }));
+
+    return {
+        setResponse: (response: ProviderResponseDetails) => updateEntry(id, { response }),
+        complete: (outcome: Exclude<RequestStatus, 'pending'>, error?: unknown) => updateEntry(id, {
+            status: outcome,
+            durationMs: Date.now() - startedAt,
+            error: error === undefined ? null : error instanceof Error ? `${error.name}: ${error.message}` : String(error),
+        }),
+    };
+};
+
+export const getRequestLog = (): RequestLogEntry[] => entries;
+
+export const clearRequestLog = (): void => {
+    entries = [];
+    notify();
+};
+
+export const exportRequestLog = (): string =>
+    JSON.stringify({ exportedAt: new Date().toISOString(), userAgent: navigator.userAgent, entries }, null, 2);
+
+/** Calls `listener` whenever the log changes; returns an unsubscribe function. */
+export const subscribeToRequestLog = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { resolveModel, type ImageEditProvider, type ImageGenerationRequest } from './imageProvider';
+import { hashFile } from './imageUtils';
+import { openDatabase, requestToPromise, transactionDone, dataUrlToBlob, blobToDataUrl } from './idb';
+
+/*
+ * Model results are cached in IndexedDB under a hash of everything that
+ * determines them: the input image, mask, context and product bytes, the
+ * operation, the full prompt text, the provider, model and generation
+ * settings, and the remaining parameters. The cache is a best-effort
+ * optimisation, so storage failures are logged and the operation goes to the
+ * model as if nothing was cached.
+ */
+
+const DB_NAME = 'pixelshop-cache';
+const DB_VERSION = 1;
+const STORE = 'results';
+const LAST_USED_INDEX = 'lastUsed';
+
+/** Total size of cached results above which the least recently used are evicted. */
+export const RESULT_CACHE_LIMIT_BYTES = 256 * 1024 * 1024;
+
+interface CacheEntry {
+    key: string;
+    blob: Blob;
+    size: number;
+    createdAt: number;
+    lastUsed: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const getDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+            const store = db.createObjectStore(STORE, { keyPath: 'key' });
+            store.createIndex(LAST_USED_INDEX, 'lastUsed');
+        }).catch((error) => {
+            databasePromise = null;
+            throw error;
+        });
+    }
+    return databasePromise;
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hashBytes = async (data: BufferSource): Promise<string> =>
+    toHex(await crypto.subtle.digest('SHA-256', data));
+
+/**
+ * Computes the cache key for a request.
+ * @param request The request about to be sent to the provider.
+ * @param provider The provider that will handle it.
+ * @returns A promise that resolves to a hex SHA-256 digest.
+ */
+export const computeResultKey = async (
+    request: ImageGenerationRequest,
+    provider: ImageEditProvider,
+): Promise<string> => {
+    // Files are hashed separately so the boundary between inputs is unambiguous.
+    const [image, mask, context, product] = await Promise.all(
+        [request.image, request.mask, request.context, request.product].map(file => file ? hashFile(file) : null),
+    );
+    const description = JSON.stringify({
+        operation: request.operation,
+        provider: provider.id,
+        model: resolveModel(provider, request),
+        // Settings a provider ignores must not split the cache.
+        settings: provider.configurable ? request.settings ?? null : null,
+        prompt: request.prompt,
+        selection: request.selection ?? null,
+        variant: request.variant ?? 0,
+        image,
+        mask,
+        context,
+        product,
+    });
+    return hashBytes(new TextEncoder().encode(description));
+};
+
+/**
+ * Looks up a cached result and marks it as recently used.
+ * @param key A key from computeResultKey.
+ * @returns A promise that resolves to the cached data URL, or null on a miss.
+ */
+export const getCachedResult = async (key: string): Promise<string | null> => {
+    try {
+        const db = await getDatabase();
+        const transaction = db.transaction(STORE, 'readwrite');
+        const store = transaction.objectStore(STORE);
+        const entry = await requestToPromise<CacheEntry | undefined>(store.get(key));
+        if (!entry) {
+            return null;
+        }
+        store.put({ ...entry, lastUsed: Date.now() });
+        await transactionDone(transaction);
+        return await blobToDataUrl(entry.blob);
+    } catch (error) {
+        console.warn('Could not read from the result cache.', error);
+        return null;
+    }
+};
+
+// Deletes the least recently used entries until the cache fits the limit.
+const evict = async (db: IDBDatabase, limitBytes: number): Promise<void> => {
+    const transaction = db.transaction(STORE, 'readwrite');
+    const index = transaction.objectStore(STORE).index(LAST_USED_INDEX);
+    let total = 0;
+    let evicted = 0;
+    await new Promise<void>((resolve, reject) => {
+        // Walk from newest to oldest, keeping entries while they fit.
+        const request = index.openCursor(null, 'prev');
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                return resolve();
+            }
+            total += (cursor.value as CacheEntry).size;
+            if (total > limitBytes) {
+                cursor.delete();
+                evicted++;
+            }
+            cursor.continue();
+        };
+    });
+    await transactionDone(transaction);
+    if (evicted > 0) {
+        console.log(`Evicted ${evicted} result(s) from the cache.`);
+    }
+};
+
+/**
+ * Stores a result, evicting the least recently used entries beyond the size limit.
+ * @param key A key from computeResultKey.
+ * @param dataUrl The provider's result.
+ * @param limitBytes The cache size cap.
+ */
+export const putCachedResult = async (key: string, dataUrl: string, limitBytes: number = RESULT_CACHE_LIMIT_BYTES): Promise<void> => {
+    try {
+        const blob = await dataUrlToBlob(dataUrl);
+        const db = await getDatabase();
+        const now = Date.now();
+        const entry: CacheEntry = { key, blob, size: blob.size, createdAt: now, lastUsed: now };
+        const transaction = db.transaction(STORE, 'readwrite');
+        transaction.objectStore(STORE).put(entry);
+        await transactionDone(transaction);
+        await evict(db, limitBytes);
+    } catch (error) {
+        console.warn('Could not write to the result cache.', error);
+    }
+};
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Size } from './coordinates';
+import { loadImage, createCanvas } from './imageUtils';
+
+// Aspect ratio differences up to this (relative) are treated as rounding by the
+// model and silently resampled away.
+const ASPECT_TOLERANCE = 0.03;
+// Below this correlation of normalized luminance thumbnails the composition
+// itself has moved, not just the colours.
+const MIN_CONTENT_CORRELATION = 0.6;
+const THUMBNAIL_SIZE = 48;
+
+export interface DriftReport {
+    expectedSize: Size;
+    resultSize: Size;
+    /** Relative difference between the result's aspect ratio and the expected one. */
+    aspectDrift: number;
+    /** Correlation (-1 to 1) between source and result structure, when checked. */
+    contentCorrelation: number | null;
+    resampled: boolean;
+    flagged: boolean;
+    reasons: string[];
+}
+
+export interface NormalizedResult {
+    imageUrl: string;
+    report: DriftReport;
+}
+
+// Luminance of the image at thumbnail size, normalized to zero mean and unit
+// variance so global colour and exposure changes do not count as drift.
+const readStructure = (image: CanvasImageSource): Float32Array => {
+    const { ctx } = createCanvas(THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+    ctx.drawImage(image, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+    const data = ctx.getImageData(0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE).data;
+    const values = new Float32Array(THUMBNAIL_SIZE * THUMBNAIL_SIZE);
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) {
+        values[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+        sum += values[i];
+    }
+    const mean = sum / values.length;
+    let variance = 0;
+    for (let i = 0; i < values.length; i++) {
+        values[i] -= mean;
+        variance += values[i] * values[i];
+    }
+    const deviation = Math.sqrt(variance / values.length) || 1;
+    for (let i = 0; i < values.length; i++) {
+        values[i] /= deviation;
+    }
+    return values;
+};
+
+const correlate = (a: Float32Array, b: Float32Array): number => {
+    let total = 0;
+    for (let i = 0; i < a.length; i++) {
+        total += a[i] * b[i];
+    }
+    return total / a.length;
+};
+
+/**
+ * Checks a model result against the image it was generated from and brings it
+ * back to the expected dimensions. Small size or aspect differences are
+ * resampled; large aspect differences are center-cropped to the expected
+ * aspect before resampling and, like large content drift, flagged.
+ * @param source The image sent to the model.
+ * @param resultUrl Data URL of the model output.
+ * @param options `expectedSize` defaults to the source size; `checkContent` compares structure (default true).
+ */
+export const normalizeResult = async (
+    source: File,
+    resultUrl: string,
+    options: { expectedSize?: Size; checkContent?: boolean } = {},
+): Promise<NormalizedResult> => {
+    const [sourceImage, resultImage] = await Promise.all([loadImage(source), loadImage(resultUrl)]);
+    const expectedSize = options.expectedSize ?? { width: sourceImage.naturalWidth, height: sourceImage.naturalHeight };
+    const resultSize = { width: resultImage.naturalWidth, height: resultImage.naturalHeight };
+
+    const expectedAspect = expectedSize.width / expectedSize.height;
+    const resultAspect = resultSize.width / resultSize.height;
+    const aspectDrift = Math.abs(resultAspect - expectedAspect) / expectedAspect;
+    const reasons: string[] = [];
+
+    if (aspectDrift > ASPECT_TOLERANCE) {
+        reasons.push(`the aspect ratio changed by ${Math.round(aspectDrift * 100)}%`);
+    }
+
+    const sameSize = resultSize.width === expectedSize.width && resultSize.height === expectedSize.height;
+    let imageUrl = resultUrl;
+    let normalizedCanvas: HTMLCanvasElement | null = null;
+    if (!sameSize) {
+        // Crop the result to the expected aspect when it has drifted, so resampling never distorts it.
+        let sx = 0, sy = 0, sw = resultSize.width, sh = resultSize.height;
+        if (aspectDrift > ASPECT_TOLERANCE) {
+            if (resultAspect > expectedAspect) {
+                sw = Math.round(resultSize.height * expectedAspect);
+                sx = Math.round((resultSize.width - sw) / 2);
+            } else {
+                sh = Math.round(resultSize.width / expectedAspect);
+                sy = Math.round((resultSize.height - sh) / 2);
+            }
+        }
+        const { canvas, ctx } = createCanvas(expectedSize.width, expectedSize.height);
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(resultImage, sx, sy, sw, sh, 0, 0, expectedSize.width, expectedSize.height);
+        normalizedCanvas = canvas;
+        imageUrl = canvas.toDataURL('image/png');
+        console.log(`Resampled result from ${resultSize.width}x${resultSize.height} to ${expectedSize.width}x${expectedSize.height}.`);
+    }
+
+    let contentCorrelation: number | null = null;
+    if (options.checkContent !== false) {
+        contentCorrelation = correlate(readStructure(sourceImage), readStructure(normalizedCanvas ?? resultImage));
+        if (contentCorrelation < MIN_CONTENT_CORRELATION) {
+            reasons.push('the composition no longer lines up with the original');
+        }
+    }
+
+    const report: DriftReport = {
+        expectedSize,
+        resultSize,
+        aspectDrift,
+        contentCorrelation,
+        resampled: !sameSize,
+        flagged: reasons.length > 0,
+        reasons,
+    };
+    if (report.flagged) {
+        console.warn(`Result drift detected: ${reasons.join('; ')}.`, report);
+    }
+    return { imageUrl, report };
+};
+
+export const describeDrift = (report: DriftReport): string =>
+    `The AI result drifted from the original: ${report.reasons.join(' and ')}.` +
+    (report.resampled ? ` It was resized to ${report.expectedSize.width}x${report.expectedSize.height}.` : '');
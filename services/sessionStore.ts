@@ -0,0 +1,282 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { HistoryEntry } from '../types';
+import { openDatabase, requestToPromise, transactionDone, dataUrlToBlob } from './idb';
+import { createHistoryEntry } from './history';
+import { normalizeGenerationSettings, type GenerationRecord } from './generationSettings';
+
+/*
+ * Editing sessions are autosaved to IndexedDB, so several edits in progress can
+ * be kept and resumed from the start screen. Images are stored as blobs, one
+ * record per history step; steps never change once made, so each save only
+ * writes the steps that are new since the last one, plus the session summary.
+ */
+
+const DB_NAME = 'pixelshop-sessions';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const ENTRIES = 'entries';
+
+// Where sessions were autosaved before they moved to IndexedDB.
+const LEGACY_AUTOSAVE_KEY = 'pixelshop_autosave';
+
+/** What the start screen shows for a saved session. */
+export interface SessionSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    /** Number of edits, not counting the upload. */
+    stepCount: number;
+    /** Thumbnail of the step the session was left on. */
+    thumbnailUrl: string | null;
+}
+
+/** The history of a session and where in it the user was. */
+export interface SessionSnapshot {
+    history: HistoryEntry[];
+    currentId: string;
+    tipId: string;
+}
+
+interface StoredSession extends SessionSummary {
+    currentId: string;
+    tipId: string;
+}
+
+type StoredEntry = Omit<HistoryEntry, 'file' | 'mask' | 'thumbnailUrl'> & {
+    sessionId: string;
+    blob: Blob;
+    filename: string;
+    maskBlob: Blob | null;
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+// Steps already in the database, per session, so saves can skip them
+const writtenEntries = new Map<string, Set<string>>();
+
+const getDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+            db.createObjectStore(SESSIONS, { keyPath: 'id' });
+            db.createObjectStore(ENTRIES, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+        }).catch((error) => {
+            databasePromise = null;
+            throw error;
+        });
+    }
+    return databasePromise;
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const createSessionId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const toStoredEntry = (sessionId: string, { file, mask, thumbnailUrl, ...entry }: HistoryEntry): StoredEntry => ({
+    ...entry,
+    sessionId,
+    blob: file,
+    filename: file.name,
+    maskBlob: mask,
+});
+
+const toHistoryEntry = ({ sessionId, blob, filename, maskBlob, ...entry }: StoredEntry): HistoryEntry => ({
+    ...entry,
+    file: new File([blob], filename, { type: blob.type }),
+    mask: maskBlob ? new File([maskBlob], `mask-${entry.id}.png`, { type: maskBlob.type }) : null,
+    thumbnailUrl: null,
+});
+
+/**
+ * Lists saved sessions, most recently edited first.
+ * @returns A promise that resolves to the session summaries.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const db = await getDatabase();
+    const stored = await requestToPromise<StoredSession[]>(db.transaction(SESSIONS).objectStore(SESSIONS).getAll());
+    return stored
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .map(({ currentId, tipId, ...summary }) => summary);
+};
+
+/**
+ * Saves a session, writing only the history steps that are not stored yet.
+ * @param session The session's id, name and creation time.
+ * @param snapshot The history to save and the current position in it.
+ */
+export const saveSession = async (
+    session: Pick<SessionSummary, 'id' | 'name' | 'createdAt'>,
+    snapshot: SessionSnapshot,
+): Promise<void> => {
+    const db = await getDatabase();
+    const written = writtenEntries.get(session.id) ?? new Set<string>();
+    const pending = snapshot.history.filter(entry => !written.has(entry.id));
+    const current = snapshot.history.find(entry => entry.id === snapshot.currentId);
+
+    const transaction = db.transaction([SESSIONS, ENTRIES], 'readwrite');
+    const sessions = transaction.objectStore(SESSIONS);
+    const entries = transaction.objectStore(ENTRIES);
+    const previous = await requestToPromise<StoredSession | undefined>(sessions.get(session.id));
+    pending.forEach(entry => entries.put(toStoredEntry(session.id, entry)));
+    const stored: StoredSession = {
+        ...session,
+        updatedAt: Date.now(),
+        stepCount: snapshot.history.length - 1,
+        // Thumbnails are made after the step, so keep the last one until the new one exists
+        thumbnailUrl: current?.thumbnailUrl ?? previous?.thumbnailUrl ?? null,
+        currentId: snapshot.currentId,
+        tipId: snapshot.tipId,
+    };
+    sessions.put(stored);
+    await transactionDone(transaction);
+
+    pending.forEach(entry => written.add(entry.id));
+    writtenEntries.set(session.id, written);
+    if (pending.length > 0) {
+        console.log(`Saved ${pending.length} new step(s) to session "${session.name}".`);
+    }
+    notify();
+};
+
+/**
+ * Loads a saved session.
+ * @param id The session to load.
+ * @returns A promise that resolves to the session's summary and history.
+ */
+export const loadSession = async (id: string): Promise<SessionSummary & SessionSnapshot> => {
+    const db = await getDatabase();
+    const transaction = db.transaction([SESSIONS, ENTRIES]);
+    const stored = await requestToPromise<StoredSession | undefined>(transaction.objectStore(SESSIONS).get(id));
+    const entries = await requestToPromise<StoredEntry[]>(transaction.objectStore(ENTRIES).index('sessionId').getAll(id));
+    if (!stored || entries.length === 0) {
+        throw new Error('The saved session could not be found.');
+    }
+    const history = entries.sort((a, b) => a.createdAt - b.createdAt).map(toHistoryEntry);
+    writtenEntries.set(id, new Set(history.map(entry => entry.id)));
+    const { currentId, tipId, ...summary } = stored;
+    return { ...summary, history, currentId, tipId };
+};
+
+/** Whether a step has been written to a session, so its images can be read back from it. */
+export const isEntrySaved = (sessionId: string, entryId: string): boolean =>
+    writtenEntries.get(sessionId)?.has(entryId) ?? false;
+
+/**
+ * Reads the images of saved steps back from a session. Browsers keep blobs read
+ * from IndexedDB on disk, so using these in place of images created in memory
+ * frees that memory.
+ * @param sessionId The session the steps were saved to.
+ * @param entryIds The steps to read.
+ * @returns A promise that resolves to each step's image and mask, by step id.
+ */
+export const loadSavedImages = async (sessionId: string, entryIds: string[]): Promise<Map<string, Pick<HistoryEntry, 'file' | 'mask'>>> => {
+    const db = await getDatabase();
+    const entries = db.transaction(ENTRIES).objectStore(ENTRIES);
+    const stored = await Promise.all(entryIds.map(id => requestToPromise<StoredEntry | undefined>(entries.get(id))));
+    const images = new Map<string, Pick<HistoryEntry, 'file' | 'mask'>>();
+    stored.forEach(entry => {
+        if (entry?.sessionId === sessionId) {
+            const { file, mask } = toHistoryEntry(entry);
+            images.set(entry.id, { file, mask });
+        }
+    });
+    return images;
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+    const db = await getDatabase();
+    const transaction = db.transaction(SESSIONS, 'readwrite');
+    const sessions = transaction.objectStore(SESSIONS);
+    const stored = await requestToPromise<StoredSession | undefined>(sessions.get(id));
+    if (stored) {
+        sessions.put({ ...stored, name: name.trim() || stored.name });
+    }
+    await transactionDone(transaction);
+    notify();
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    const db = await getDatabase();
+    const transaction = db.transaction([SESSIONS, ENTRIES], 'readwrite');
+    transaction.objectStore(SESSIONS).delete(id);
+    const entries = transaction.objectStore(ENTRIES);
+    const keys = await requestToPromise(entries.index('sessionId').getAllKeys(id));
+    keys.forEach(key => entries.delete(key));
+    await transactionDone(transaction);
+    writtenEntries.delete(id);
+    notify();
+};
+
+/** Calls `listener` whenever sessions are saved, renamed or deleted; returns an unsubscribe function. */
+export const subscribeToSessions = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+// A step as the localStorage autosave kept it. The oldest saves only have name, dataUrl and generation.
+type LegacyHistoryItem = Partial<Omit<HistoryEntry, 'file' | 'mask' | 'thumbnailUrl'>> & {
+    name: string;
+    dataUrl: string;
+    maskDataUrl?: string | null;
+    generation?: GenerationRecord | null;
+};
+
+const dataUrlToFile = async (dataUrl: string, filename: string): Promise<File> => {
+    const blob = await dataUrlToBlob(dataUrl);
+    return new File([blob], filename, { type: blob.type });
+};
+
+/**
+ * Moves a session autosaved to localStorage by earlier versions into the
+ * session store, so it shows up in the sessions list, then frees the key.
+ */
+export const migrateLegacyAutosave = async (): Promise<void> => {
+    let saved: string | null = null;
+    try {
+        saved = localStorage.getItem(LEGACY_AUTOSAVE_KEY);
+    } catch (error) {
+        console.error('Failed to read the old autosave from localStorage', error);
+    }
+    if (!saved) return;
+
+    try {
+        const state = JSON.parse(saved);
+        const history: HistoryEntry[] = [];
+        for (const [index, item] of (state.history as LegacyHistoryItem[]).entries()) {
+            const generation = item.generation ? { ...item.generation, settings: normalizeGenerationSettings(item.generation.settings) } : null;
+            // Saves from before steps carried metadata are read as a straight line of steps
+            const fallback = createHistoryEntry(await dataUrlToFile(item.dataUrl, item.name), history[index - 1]?.id ?? null, {
+                operation: item.operation ?? (index === 0 ? 'upload' : generation?.operation ?? 'crop'),
+                generation,
+            });
+            history.push({
+                ...fallback,
+                id: item.id ?? fallback.id,
+                parentId: item.id ? item.parentId ?? null : fallback.parentId,
+                prompt: item.prompt ?? null,
+                selection: item.selection ?? null,
+                mask: item.maskDataUrl ? await dataUrlToFile(item.maskDataUrl, `mask-${index}.png`) : null,
+                model: item.model ?? fallback.model,
+                createdAt: item.createdAt ?? fallback.createdAt,
+                durationMs: item.durationMs ?? null,
+            });
+        }
+        if (history.length > 0) {
+            const currentId = state.currentId ?? history[state.historyIndex]?.id ?? history[history.length - 1].id;
+            const tipId = state.tipId ?? history[history.length - 1].id;
+            const savedAt = Date.parse(state.timestamp) || Date.now();
+            await saveSession(
+                { id: createSessionId(), name: history[0].file.name.replace(/\.[^.]+$/, ''), createdAt: savedAt },
+                { history, currentId, tipId },
+            );
+            console.log('Moved the previous autosave into the session store.');
+        }
+        localStorage.removeItem(LEGACY_AUTOSAVE_KEY);
+    } catch (error) {
+        console.error('Failed to move the old autosave into the session store', error);
+    }
+};
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface DiffSegment {
+    text: string;
+    type: 'same' | 'added' | 'removed';
+}
+
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) ?? [];
+
+/**
+ * Word-level diff of two strings, from the longest common subsequence of their
+ * words and whitespace. Adjacent segments of the same type are merged.
+ * @param before The original text.
+ * @param after The changed text.
+ * @returns The segments, in reading order.
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    // lengths[i][j] is the LCS length of a[i..] and b[j..].
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (text: string, type: DiffSegment['type']) => {
+        const last = segments[segments.length - 1];
+        if (last?.type === type) {
+            last.text += text;
+        } else {
+            segments.push({ text, type });
+        }
+    };
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            push(a[i], 'same');
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push(a[i++], 'removed');
+        } else {
+            push(b[j++], 'added');
+        }
+    }
+    while (i < a.length) push(a[i++], 'removed');
+    while (j < b.length) push(b[j++], 'added');
+    return segments;
+};
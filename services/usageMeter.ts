@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ProviderOperation, TokenUsage } from './imageProvider';
+
+/*
+ * Records every model request (tokens, images, latency and an estimated cost)
+ * and enforces the usage budget. Records for the current day are kept in
+ * localStorage so the day's totals survive reloads and include other tabs;
+ * session totals cover requests made since this page was loaded, and are kept
+ * in memory so a session spanning midnight keeps them.
+ */
+
+const USAGE_STORAGE_KEY = 'pixelshop-usage';
+const BUDGET_STORAGE_KEY = 'pixelshop-usage-budget';
+
+// Prices in USD per million tokens. Other Gemini models are priced like the
+// default image model so a custom model id never escapes the budget; models of
+// other providers are treated as free.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+    'gemini-2.5-flash-image-preview': { input: 0.30, output: 30 },
+    'gemini-2.5-flash-image': { input: 0.30, output: 30 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+};
+const GEMINI_FALLBACK_PRICING = MODEL_PRICING['gemini-2.5-flash-image-preview'];
+// Typical token counts of one image request, used to estimate a request
+// before any has been recorded for the model.
+const TYPICAL_PROMPT_TOKENS = 1800;
+const TYPICAL_OUTPUT_TOKENS = 1290;
+
+export type UsageOutcome = 'success' | 'cached' | 'failed';
+
+export interface UsageRecord {
+    timestamp: number;
+    operation: ProviderOperation;
+    provider: string;
+    model: string;
+    outcome: UsageOutcome;
+    promptTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    /** Images sent with the request (source, mask, context). */
+    inputImages: number;
+    /** Images returned by the model. */
+    outputImages: number;
+    latencyMs: number;
+    /** Estimated cost in USD. */
+    cost: number;
+}
+
+export interface UsageTotals {
+    requests: number;
+    cached: number;
+    failed: number;
+    inputImages: number;
+    outputImages: number;
+    promptTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    latencyMs: number;
+    cost: number;
+}
+
+export interface UsageSummary {
+    session: UsageTotals;
+    day: UsageTotals;
+    /** The day's totals per operation. */
+    byOperation: Partial<Record<ProviderOperation, UsageTotals>>;
+}
+
+export type BudgetScope = 'session' | 'day';
+
+export interface UsageBudget {
+    /** Whether the limits apply to this session's spend or the whole day's. */
+    scope: BudgetScope;
+    /** Spend in USD at which the editor starts warning; null for no warning. */
+    softLimit: number | null;
+    /** Spend in USD beyond which requests are refused; null for no limit. */
+    hardLimit: number | null;
+}
+
+export interface BudgetStatus {
+    level: 'ok' | 'warn' | 'block';
+    spent: number;
+    projected: number;
+    message: string | null;
+}
+
+const DEFAULT_BUDGET: UsageBudget = { scope: 'day', softLimit: null, hardLimit: null };
+
+const listeners = new Set<() => void>();
+
+const dayKey = (timestamp: number): string => new Date(timestamp).toDateString();
+
+// Reads today's records, dropping any left over from a previous day.
+const readDayRecords = (): UsageRecord[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(USAGE_STORAGE_KEY) ?? 'null') as { day: string; records: UsageRecord[] } | null;
+        return stored && stored.day === dayKey(Date.now()) ? stored.records : [];
+    } catch (error) {
+        console.error('Failed to read usage records from localStorage', error);
+        return [];
+    }
+};
+
+const writeDayRecords = (records: UsageRecord[]) => {
+    try {
+        localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify({ day: dayKey(Date.now()), records }));
+    } catch (error) {
+        console.error('Failed to save usage records to localStorage', error);
+    }
+};
+
+const sessionRecords: UsageRecord[] = [];
+
+const tokenCost = (model: string, promptTokens: number, outputTokens: number): number => {
+    const pricing = MODEL_PRICING[model] ?? (model.startsWith('gemini') ? GEMINI_FALLBACK_PRICING : undefined);
+    return pricing ? (promptTokens * pricing.input + outputTokens * pricing.output) / 1_000_000 : 0;
+};
+
+/**
+ * Estimates what the next request to a model will cost, from the average of
+ * today's successful requests or, failing that, typical token counts.
+ */
+export const estimateRequestCost = (model: string): number => {
+    const successes = readDayRecords().filter(record => record.model === model && record.outcome === 'success');
+    if (successes.length > 0) {
+        return successes.reduce((sum, record) => sum + record.cost, 0) / successes.length;
+    }
+    return tokenCost(model, TYPICAL_PROMPT_TOKENS, TYPICAL_OUTPUT_TOKENS);
+};
+
+/**
+ * Records one model request. Successful requests without reported token usage
+ * are costed with the typical estimate; cached and failed requests cost nothing.
+ */
+export const recordUsage = (entry: Omit<UsageRecord, 'timestamp' | 'promptTokens' | 'outputTokens' | 'totalTokens' | 'cost'> & { usage?: TokenUsage }): void => {
+    const { usage, ...rest } = entry;
+    let cost = 0;
+    if (entry.outcome === 'success') {
+        cost = usage
+            ? tokenCost(entry.model, usage.promptTokens, usage.outputTokens)
+            : tokenCost(entry.model, TYPICAL_PROMPT_TOKENS, TYPICAL_OUTPUT_TOKENS);
+    }
+    const record: UsageRecord = {
+        ...rest,
+        timestamp: Date.now(),
+        promptTokens: usage?.promptTokens ?? 0,
+        outputTokens: usage?.outputTokens ?? 0,
+        totalTokens: usage?.totalTokens ?? 0,
+        cost,
+    };
+    sessionRecords.push(record);
+    writeDayRecords([...readDayRecords(), record]);
+    console.log(`Metered ${record.operation} (${record.outcome}): ${record.totalTokens} tokens, ${record.latencyMs}ms, ~$${record.cost.toFixed(4)}.`);
+    listeners.forEach(listener => listener());
+};
+
+const emptyTotals = (): UsageTotals => ({
+    requests: 0, cached: 0, failed: 0, inputImages: 0, outputImages: 0,
+    promptTokens: 0, outputTokens: 0, totalTokens: 0, latencyMs: 0, cost: 0,
+});
+
+const addRecord = (totals: UsageTotals, record: UsageRecord): UsageTotals => ({
+    requests: totals.requests + (record.outcome === 'cached' ? 0 : 1),
+    cached: totals.cached + (record.outcome === 'cached' ? 1 : 0),
+    failed: totals.failed + (record.outcome === 'failed' ? 1 : 0),
+    inputImages: totals.inputImages + record.inputImages,
+    outputImages: totals.outputImages + record.outputImages,
+    promptTokens: totals.promptTokens + record.promptTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    totalTokens: totals.totalTokens + record.totalTokens,
+    latencyMs: totals.latencyMs + record.latencyMs,
+    cost: totals.cost + record.cost,
+});
+
+export const getUsageSummary = (): UsageSummary => {
+    const dayRecords = readDayRecords();
+    const byOperation: UsageSummary['byOperation'] = {};
+    for (const record of dayRecords) {
+        byOperation[record.operation] = addRecord(byOperation[record.operation] ?? emptyTotals(), record);
+    }
+    return {
+        session: sessionRecords.reduce(addRecord, emptyTotals()),
+        day: dayRecords.reduce(addRecord, emptyTotals()),
+        byOperation,
+    };
+};
+
+/** Today's records as JSON, for sharing who spent what on a shared key. */
+export const exportUsageLog = (): string =>
+    JSON.stringify({ day: dayKey(Date.now()), records: readDayRecords() }, null, 2);
+
+export const getUsageBudget = (): UsageBudget => {
+    try {
+        return { ...DEFAULT_BUDGET, ...JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) ?? '{}') };
+    } catch (error) {
+        console.error('Failed to read the usage budget from localStorage', error);
+        return DEFAULT_BUDGET;
+    }
+};
+
+export const setUsageBudget = (budget: UsageBudget): void => {
+    try {
+        localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+    } catch (error) {
+        console.error('Failed to save the usage budget to localStorage', error);
+    }
+    listeners.forEach(listener => listener());
+};
+
+const formatCost = (cost: number): string => `$${cost.toFixed(2)}`;
+
+/**
+ * Compares the spend so far, plus the estimated cost of what is about to run,
+ * against the budget.
+ * @param additionalCost Estimated cost of the pending request(s) in USD.
+ */
+export const checkBudget = (additionalCost: number = 0): BudgetStatus => {
+    const budget = getUsageBudget();
+    const summary = getUsageSummary();
+    const spent = (budget.scope === 'session' ? summary.session : summary.day).cost;
+    const projected = spent + additionalCost;
+    const scopeLabel = budget.scope === 'session' ? 'this session' : 'today';
+
+    if (budget.hardLimit !== null && projected > budget.hardLimit) {
+        return {
+            level: 'block',
+            spent,
+            projected,
+            message: `This would bring spend ${scopeLabel} to about ${formatCost(projected)}, over the ${formatCost(budget.hardLimit)} limit.`,
+        };
+    }
+    if (budget.softLimit !== null && projected > budget.softLimit) {
+        return {
+            level: 'warn',
+            spent,
+            projected,
+            message: `Spend ${scopeLabel} is about ${formatCost(projected)}, past the ${formatCost(budget.softLimit)} warning level.`,
+        };
+    }
+    return { level: 'ok', spent, projected, message: null };
+};
+
+/** Calls `listener` whenever usage is recorded or the budget changes; returns an unsubscribe function. */
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
@@ -2,3 +2,53 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import type { PixelRect, ImageOperation } from './services/imageProvider';
+import type { GenerationRecord } from './services/generationSettings';
+
+/** An object the model found in the image, usable as an edit selection or a mask. */
+export interface DetectedObject {
+  id: string;
+  label: string;
+  /** Bounding box in the image's natural pixels. */
+  box: PixelRect;
+  /** Data URL of a grayscale probability mask covering `box`, when the model returned one. */
+  maskUrl: string | null;
+  /** Small JPEG crop of the box for the object list. */
+  thumbnailUrl: string;
+}
+
+/** A product cutout in the product library, for placing into scenes. */
+export interface Product {
+  id: string;
+  name: string;
+  file: File;
+  addedAt: number;
+}
+
+/** What produced a history step: an AI operation, a manual crop, or the upload itself. */
+export type HistoryOperation = ImageOperation | 'upload' | 'crop';
+
+/** One step in the editing history, with everything needed to tell how it was made. */
+export interface HistoryEntry {
+  id: string;
+  /** The step this one was made from; null for the upload. */
+  parentId: string | null;
+  operation: HistoryOperation;
+  file: File;
+  /** Small JPEG data URL for the history panel; null until it has been generated. */
+  thumbnailUrl: string | null;
+  /** The user's prompt or instructions, for prompted operations. */
+  prompt: string | null;
+  /** The area the operation was confined to, in the parent image's natural pixels. */
+  selection: PixelRect | null;
+  /** The painted mask the operation was confined to, white where it applied. */
+  mask: File | null;
+  /** The model that was asked, for AI operations. */
+  model: string | null;
+  /** The operation and settings used, for AI operations. */
+  generation: GenerationRecord | null;
+  createdAt: number;
+  /** How long the operation took, including every variant; null for instant steps. */
+  durationMs: number | null;
+}